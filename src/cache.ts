@@ -0,0 +1,440 @@
+import React, { createContext, useContext, useState } from 'react';
+import { AsyncScheduler, realScheduler, useAsyncScheduler } from './scheduler';
+
+/**
+ * Default amount of time an unused cache entry is kept, in milliseconds.
+ */
+const DEFAULT_CACHE_TIME_MS = 5 * 60 * 1000;
+
+export interface CachedData<T> {
+  data: T;
+
+  /**
+   * Timestamp from the `now()` of the cache's scheduler, by default `Date.now()`, of when the data
+   * was stored.
+   */
+  updatedAt: number;
+}
+
+export interface CacheFetchOptions {
+  /**
+   * Cached data younger than this amount is returned as is without calling the producer. Defaults
+   * to 0, meaning the data is always revalidated.
+   */
+  staleTimeMs?: number;
+}
+
+interface InFlightCall {
+  promise: Promise<unknown>;
+  controller: AbortController;
+
+  // Number of callers still waiting for this call. The call is aborted when it drops to 0.
+  consumers: number;
+}
+
+export interface CachedError {
+  error: any;
+
+  /**
+   * Timestamp from the `now()` of the cache's scheduler of when the error was stored.
+   */
+  updatedAt: number;
+}
+
+/**
+ * The data or error of each key of an `AsyncStateCache`, as returned by `dehydrate` to be
+ * serialized into a server rendered page. Errors are turned into plain objects.
+ */
+export interface DehydratedAsyncStateCache {
+  entries: Array<{
+    key: string;
+    data?: unknown;
+    error?: { name: string, message: string, [property: string]: unknown };
+    updatedAt: number;
+  }>;
+}
+
+interface CacheEntry {
+  cached: CachedData<unknown> | null;
+  failure: CachedError | null;
+
+  // Set when the data or error came from `hydrate`, until it is replaced.
+  hydrated: boolean;
+  inFlight: InFlightCall | null;
+  listeners: Array<(data: unknown) => void>;
+
+  // Set once the entry had a listener. Until then, it is not garbage collected, so that a cache
+  // which is only prefetched and dehydrated, as on the server, arms no timer.
+  subscribed: boolean;
+  cacheTimeMs: number;
+  // Handle of the scheduler's timer, or null.
+  gcTimer: unknown;
+}
+
+/**
+ * A store shared by hooks using the same `cacheKey`. For each key, it keep the last resolved data
+ * and the currently running call, so that multiple hooks share one call and one result. Entries
+ * that are no longer used by any hook are removed after their `cacheTimeMs`, while entries that no
+ * hook ever used are kept until removed or cleared. The timestamps and the garbage collection use
+ * the given scheduler, which should be the one of the hooks using the cache, so that
+ * `staleTimeMs` and `refetchStaleTimeMs` compare times from the same clock.
+ */
+export class AsyncStateCache {
+  private entries = new Map<string, CacheEntry>();
+
+  private scheduler: AsyncScheduler;
+
+  constructor(scheduler: AsyncScheduler = realScheduler) {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Returns the cached data for the key, if any.
+   */
+  peek<T>(key: string): CachedData<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || !entry.cached) {
+      return undefined;
+    }
+    return entry.cached as CachedData<T>;
+  }
+
+  /**
+   * Returns the error of the last call for the key, if it rejected.
+   */
+  peekError(key: string): CachedError | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || !entry.failure) {
+      return undefined;
+    }
+    return entry.failure;
+  }
+
+  /**
+   * Store data for the key and notify every hook using it.
+   */
+  set<T>(key: string, data: T) {
+    const entry = this.getEntry(key);
+    entry.cached = { data, updatedAt: this.scheduler.now() };
+    entry.failure = null;
+    entry.hydrated = false;
+    entry.listeners.forEach((listener) => listener(data));
+    this.scheduleGc(key);
+  }
+
+  /**
+   * Listen for new data of the key. The entry is not garbage collected while it has a listener.
+   * Returns a function to remove the listener.
+   */
+  subscribe<T>(key: string, listener: (data: T) => void, cacheTimeMs?: number): () => void {
+    const entry = this.getEntry(key);
+    const entryListener = listener as (data: unknown) => void;
+    entry.listeners.push(entryListener);
+    entry.subscribed = true;
+    if (cacheTimeMs !== undefined) {
+      entry.cacheTimeMs = cacheTimeMs;
+    }
+    if (entry.gcTimer !== null) {
+      this.scheduler.clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+
+    return () => {
+      entry.listeners = entry.listeners.filter((other) => other !== entryListener);
+      this.scheduleGc(key);
+    };
+  }
+
+  /**
+   * Run the producer for the key, unless a call for the key is already running, in which case
+   * that call is shared, or the cached data is still fresh. The shared call is only aborted once
+   * every caller's signal is aborted. A caller whose signal is aborted gets rejected immediately.
+   */
+  fetch<T>(
+    key: string,
+    producer: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal,
+    options?: CacheFetchOptions,
+  ): Promise<T> {
+    const entry = this.getEntry(key);
+    const staleTimeMs = options?.staleTimeMs || 0;
+    const now = this.scheduler.now();
+
+    if (entry.cached && !entry.inFlight && now - entry.cached.updatedAt < staleTimeMs) {
+      return Promise.resolve(entry.cached.data as T);
+    }
+
+    if (signal.aborted) {
+      return Promise.reject(new Error('The call was aborted'));
+    }
+
+    if (!entry.inFlight) {
+      const controller = new AbortController();
+      const inFlight: InFlightCall = {
+        promise: null,
+        controller,
+        consumers: 0,
+      };
+      inFlight.promise = producer(controller.signal)
+        .then((data) => {
+          if (!controller.signal.aborted) {
+            this.set(key, data);
+          }
+          return data;
+        }, (error) => {
+          if (!controller.signal.aborted) {
+            entry.failure = { error, updatedAt: this.scheduler.now() };
+            entry.hydrated = false;
+          }
+          throw error;
+        })
+        .finally(() => {
+          if (entry.inFlight === inFlight) {
+            entry.inFlight = null;
+            this.scheduleGc(key);
+          }
+        });
+      entry.inFlight = inFlight;
+
+      // Errors are passed to each caller, which may all be gone by the time the call rejects.
+      inFlight.promise.catch(() => undefined);
+    }
+
+    const { inFlight } = entry;
+    inFlight.consumers += 1;
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+
+      const settle = () => {
+        if (settled) {
+          return false;
+        }
+        settled = true;
+        inFlight.consumers -= 1;
+        return true;
+      };
+
+      const onAbort = () => {
+        if (!settle()) {
+          return;
+        }
+        if (inFlight.consumers === 0) {
+          inFlight.controller.abort();
+          if (entry.inFlight === inFlight) {
+            entry.inFlight = null;
+            this.scheduleGc(key);
+          }
+        }
+        reject(new Error('The call was aborted'));
+      };
+
+      signal.addEventListener('abort', onAbort);
+      inFlight.promise.then(
+        (data) => {
+          if (settle()) {
+            signal.removeEventListener('abort', onAbort);
+            resolve(data as T);
+          }
+        },
+        (error) => {
+          if (settle()) {
+            signal.removeEventListener('abort', onAbort);
+            reject(error);
+          }
+        },
+      );
+    });
+  }
+
+  /**
+   * Forget the data and error of the key, so that the next call for it start from scratch. A
+   * running call for the key is not aborted.
+   */
+  remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    entry.cached = null;
+    entry.failure = null;
+    entry.hydrated = false;
+    this.scheduleGc(key);
+  }
+
+  /**
+   * Run the producer for the key and store its data or error, for example on the server before
+   * rendering. The returned promise never rejects.
+   */
+  prefetch<T>(key: string, producer: (signal: AbortSignal) => Promise<T>): Promise<void> {
+    return this.fetch(key, producer, new AbortController().signal)
+      .then(() => undefined, () => undefined);
+  }
+
+  /**
+   * Returns the data and error of every key, to be serialized and passed to `hydrate`.
+   */
+  dehydrate(): DehydratedAsyncStateCache {
+    const entries: DehydratedAsyncStateCache['entries'] = [];
+    this.entries.forEach((entry, key) => {
+      if (entry.cached) {
+        entries.push({ key, data: entry.cached.data, updatedAt: entry.cached.updatedAt });
+      } else if (entry.failure) {
+        const { error } = entry.failure;
+        entries.push({
+          key,
+          error: {
+            ...error,
+            name: error?.name ?? 'Error',
+            message: error?.message ?? String(error),
+          },
+          updatedAt: entry.failure.updatedAt,
+        });
+      }
+    });
+    return { entries };
+  }
+
+  /**
+   * Store the data and errors returned by `dehydrate`. Hooks mounting with one of these keys
+   * start in resolved or error state without calling their producer.
+   */
+  hydrate(dehydrated: DehydratedAsyncStateCache) {
+    dehydrated.entries.forEach(({
+      key, data, error, updatedAt,
+    }) => {
+      const entry = this.getEntry(key);
+      if (error) {
+        const { name, message, ...properties } = error;
+        entry.cached = null;
+        entry.failure = {
+          error: Object.assign(new Error(message), properties, { name }),
+          updatedAt,
+        };
+      } else {
+        entry.cached = { data, updatedAt };
+        entry.failure = null;
+      }
+      entry.hydrated = true;
+      this.scheduleGc(key);
+    });
+  }
+
+  /**
+   * Returns true if the data or error of the key came from `hydrate`.
+   */
+  isHydrated(key: string): boolean {
+    return !!this.entries.get(key)?.hydrated;
+  }
+
+  /**
+   * Remove every entry.
+   */
+  clear() {
+    this.entries.forEach((entry) => {
+      if (entry.gcTimer !== null) {
+        this.scheduler.clearTimeout(entry.gcTimer);
+      }
+    });
+    this.entries.clear();
+  }
+
+  private getEntry(key: string): CacheEntry {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        cached: null,
+        failure: null,
+        hydrated: false,
+        inFlight: null,
+        listeners: [],
+        subscribed: false,
+        cacheTimeMs: DEFAULT_CACHE_TIME_MS,
+        gcTimer: null,
+      };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private scheduleGc(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry || !entry.subscribed || entry.listeners.length > 0 || entry.inFlight) {
+      return;
+    }
+
+    if (entry.gcTimer !== null) {
+      this.scheduler.clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+
+    if (!Number.isFinite(entry.cacheTimeMs)) {
+      return;
+    }
+
+    entry.gcTimer = this.scheduler.setTimeout(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+    }, entry.cacheTimeMs);
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const properties = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${properties.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Build a cache key from a name and parameters which is the same on the server and the client,
+ * regardless of the order of object properties.
+ */
+export function createCacheKey(name: string, ...parameters: unknown[]): string {
+  if (parameters.length === 0) {
+    return name;
+  }
+  return `${name}:${stableStringify(parameters)}`;
+}
+
+/**
+ * The cache used without an `AsyncStateCacheProvider`.
+ */
+export const defaultCache = new AsyncStateCache();
+
+export const AsyncStateCacheContext = createContext<AsyncStateCache>(defaultCache);
+
+/**
+ * Provide a separate `AsyncStateCache` to the hooks below it. Without a provider, hooks share a
+ * global cache. If `cache` is not given, the provider creates one using the scheduler of the
+ * closest `AsyncSchedulerProvider`.
+ */
+export function AsyncStateCacheProvider(props: {
+  cache?: AsyncStateCache,
+  children?: React.ReactNode,
+}) {
+  const { cache, children } = props;
+  const scheduler = useAsyncScheduler();
+  const [ownCache] = useState(() => new AsyncStateCache(scheduler));
+
+  return React.createElement(
+    AsyncStateCacheContext.Provider,
+    { value: cache || ownCache },
+    children,
+  );
+}
+
+/**
+ * Returns the `AsyncStateCache` used by hooks in this component.
+ */
+export function useAsyncStateCache(): AsyncStateCache {
+  return useContext(AsyncStateCacheContext);
+}
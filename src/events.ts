@@ -0,0 +1,140 @@
+/**
+ * What happened to a call of `useManualAsyncState` or `useAsyncEffectState`.
+ *
+ * - `triggered`: a call was triggered, manually, by the effect or by polling.
+ * - `queued`: the call waits for the running call to complete.
+ * - `dropped-as-duplicate`: a queued call was replaced by a newer call, and never runs.
+ * - `debounce-started`: the call waits for `debounceDelayMs` or `throttleMs`.
+ * - `debounce-cancelled`: a newer call or a reset happened during the wait.
+ * - `producer-started`: the producer is called, once per attempt.
+ * - `resolved` and `rejected`: the producer completed.
+ * - `state-update-suppressed`: the result is discarded as the call is no longer current.
+ * - `reset`: the state was reset.
+ */
+export type AsyncEventType =
+  | 'triggered'
+  | 'queued'
+  | 'dropped-as-duplicate'
+  | 'debounce-started'
+  | 'debounce-cancelled'
+  | 'producer-started'
+  | 'resolved'
+  | 'rejected'
+  | 'state-update-suppressed'
+  | 'reset';
+
+export interface AsyncEvent {
+  type: AsyncEventType;
+
+  /**
+   * The `label` option of the hook, if any.
+   */
+  label?: string;
+
+  /**
+   * Identify the call within the hook, starting from 1. Not set on `reset`.
+   */
+  callId?: number;
+
+  /**
+   * Timestamp of the event from the hook's `AsyncScheduler`.
+   */
+  timestamp: number;
+
+  /**
+   * The attempt of `producer-started`, starting from 1.
+   */
+  attempt?: number;
+
+  /**
+   * The delay of `debounce-started`.
+   */
+  delayMs?: number;
+
+  /**
+   * The error of `rejected`.
+   */
+  error?: any;
+}
+
+export type AsyncEventListener = (event: AsyncEvent) => void;
+
+let globalListeners: AsyncEventListener[] = [];
+
+/**
+ * Listen to the events of every hook. Returns a function to remove the listener.
+ */
+export function subscribeAsyncEvents(listener: AsyncEventListener): () => void {
+  globalListeners.push(listener);
+  return () => {
+    globalListeners = globalListeners.filter((other) => other !== listener);
+  };
+}
+
+/**
+ * Pass the event to the hook's own listener, then to the global ones.
+ */
+export function emitAsyncEvent(event: AsyncEvent, listener?: AsyncEventListener) {
+  listener?.(event);
+  globalListeners.forEach((globalListener) => globalListener(event));
+}
+
+/**
+ * Create a listener which logs every event on one line, for example
+ * `[search #2] debounce-started { delayMs: 300 }`.
+ */
+export function createConsoleLogger(
+  logger: Pick<Console, 'log'> = console,
+): AsyncEventListener {
+  return (event) => {
+    const {
+      type, label, callId, timestamp, ...details
+    } = event;
+    const name = [label, callId !== undefined ? `#${callId}` : null]
+      .filter((part) => part)
+      .join(' ');
+    const prefix = name ? `[${name}] ${type}` : type;
+    if (Object.keys(details).length > 0) {
+      logger.log(prefix, details);
+    } else {
+      logger.log(prefix);
+    }
+  };
+}
+
+/**
+ * Keep the latest events in memory, to be dumped in a bug report for example. Pass `record` as
+ * the `onEvent` option or to `subscribeAsyncEvents`.
+ */
+export class AsyncEventRecorder {
+  events: AsyncEvent[] = [];
+
+  private maxEvents: number;
+
+  /**
+   * @param maxEvents Older events are dropped past this amount.
+   */
+  constructor(maxEvents = 1000) {
+    this.maxEvents = maxEvents;
+  }
+
+  record = (event: AsyncEvent) => {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+  };
+
+  clear() {
+    this.events = [];
+  }
+
+  /**
+   * Returns the recorded events as JSON. Errors are replaced by their string representation.
+   */
+  dump(): string {
+    return JSON.stringify(this.events.map((event) => (
+      event.error !== undefined ? { ...event, error: String(event.error) } : event
+    )), null, 2);
+  }
+}
@@ -1,7 +1,40 @@
 import React, {
-  DependencyList, useEffect, useRef, useState,
+  createContext, DependencyList, useCallback, useContext, useEffect, useRef, useState,
+  useSyncExternalStore,
 } from 'react';
 import waitPromise from './waitPromise';
+import {
+  AsyncStateCache, CachedData, CachedError, defaultCache, useAsyncStateCache,
+} from './cache';
+import { AsyncStream, isAsyncStream, readStream } from './stream';
+import { AsyncScheduler, realScheduler, useAsyncScheduler } from './scheduler';
+import { AsyncTimeoutError, withTimeout } from './timeout';
+import { PersistOptions, restorePersisted, writePersisted } from './persist';
+import {
+  AsyncRefetchSource, useAsyncRefetchSource, windowRefetchSource,
+} from './refetchSource';
+import { AsyncEvent, AsyncEventType, emitAsyncEvent } from './events';
+
+export {
+  AsyncStateCache, AsyncStateCacheContext, AsyncStateCacheProvider, CachedData, CachedError,
+  CacheFetchOptions, createCacheKey, DehydratedAsyncStateCache, useAsyncStateCache,
+} from './cache';
+export { AsyncStream } from './stream';
+export { AsyncTimeoutError } from './timeout';
+export {
+  createIndexedDBStorage, createMemoryStorage, PersistOptions, PersistSerializer, PersistStorage,
+} from './persist';
+export {
+  AsyncRefetchSource, AsyncRefetchSourceContext, AsyncRefetchSourceProvider, useAsyncRefetchSource,
+  windowRefetchSource,
+} from './refetchSource';
+export {
+  AsyncScheduler, AsyncSchedulerContext, AsyncSchedulerProvider, useAsyncScheduler,
+} from './scheduler';
+export {
+  AsyncEvent, AsyncEventListener, AsyncEventRecorder, AsyncEventType, createConsoleLogger,
+  subscribeAsyncEvents,
+} from './events';
 
 export enum AsyncState {
   /**
@@ -23,15 +56,158 @@ export enum AsyncState {
    * No async call happened yet. Not enabled by default.
    */
   PENDING,
+
+  /**
+   * The async call returned a stream which is still being read. The data is the value
+   * accumulated so far.
+   */
+  STREAMING,
+}
+
+/**
+ * Extra information carried by the states returned by the hooks, as the fourth element. `P` is the
+ * type of the progress reported by the producer, a number by default.
+ */
+export interface AsyncStateMeta<T, P = number> {
+  /**
+   * The data of the last successful call, kept through loading and error states so that it can
+   * still be shown. In resolved state, this is the same as the data. Only set when `updatedAt`
+   * is not null.
+   */
+  previousData?: T;
+
+  /**
+   * True when a call is running while data from a previous call is available.
+   */
+  isRefetching: boolean;
+
+  /**
+   * Timestamp from `Date.now()` of the last successful call, or null if there was none.
+   */
+  updatedAt: number | null;
+
+  /**
+   * The last progress reported by the running call through `reportProgress`. Cleared when a new
+   * call starts or the call completes.
+   */
+  progress?: P;
+
+  /**
+   * The number of the attempt waiting or running while the call is retried through the `retry`
+   * option, starting at 2 for the first retry, for example to show "retrying (2/3)". Cleared when
+   * the call completes.
+   */
+  attempt?: number;
+
+  /**
+   * True when the data, or the previous data, was restored by the `persist` option, and no call
+   * resolved since.
+   */
+  isRestored?: boolean;
+
+  /**
+   * Trigger the last call again, with the same arguments. Set in error state by
+   * `useAsyncEffectState` and `useManualAsyncState`, for example for a retry button.
+   */
+  retry?: () => void;
+}
+
+/**
+ * The state of an async call, with the data of type `T` once resolved, or the error of type `E`,
+ * `Error` by default, once rejected. Use the `mapError` option to make sure the error is an `E`.
+ * `P` is the type of the progress in the state meta.
+ */
+export type AsyncEffectState<T, E = Error, P = number> =
+    | [AsyncState.PENDING, null, null, AsyncStateMeta<T, P>?]
+    | [AsyncState.LOADING, null, null, AsyncStateMeta<T, P>?]
+    | [AsyncState.ERROR, null, E, AsyncStateMeta<T, P>?]
+    | [AsyncState.RESOLVED, T, null, AsyncStateMeta<T, P>?]
+    | [AsyncState.STREAMING, T, null, AsyncStateMeta<T, P>?];
+
+function withMeta<T, E, P = number>(
+  state: AsyncEffectState<any, E, any>,
+  meta: AsyncStateMeta<T, P>,
+): AsyncEffectState<T, E, P> {
+  return [state[0], state[1], state[2], meta] as AsyncEffectState<T, E, P>;
+}
+
+/**
+ * Returns the meta of the state, or one derived from the state itself if it has none.
+ */
+function getMeta<T, P = number>(state: AsyncEffectState<T, any, P>): AsyncStateMeta<T, P> {
+  if (state[3]) {
+    return state[3];
+  }
+  if (state[0] === AsyncState.RESOLVED) {
+    return { previousData: state[1], isRefetching: false, updatedAt: null };
+  }
+  return { isRefetching: false, updatedAt: null };
+}
+
+function hasPreviousData(state: AsyncEffectState<any, any, any>): boolean {
+  return state[0] === AsyncState.RESOLVED || (!!state[3] && state[3].updatedAt !== null);
+}
+
+/**
+ * Extra information about the current call passed to the producer, which reports progress of type
+ * `P`, a number by default.
+ */
+export interface AsyncCallInfo<P = number> {
+  /**
+   * The attempt number of this call, starting from 1. Only goes above 1 when `retry` is set.
+   */
+  attempt: number;
+
+  /**
+   * Report the progress of the call, for example of an upload. The value is set as `progress` in
+   * the state meta. Progress reported by a call that is no longer current is ignored.
+   */
+  reportProgress: (progress: P) => void;
 }
 
-export type AsyncEffectState<T> =
-    | [AsyncState.PENDING, null, null]
-    | [AsyncState.LOADING, null, null]
-    | [AsyncState.ERROR, null, Error]
-    | [AsyncState.RESOLVED, T, null];
+/**
+ * The async function run by the hooks. It receives an `AbortSignal` which is aborted once the
+ * result of the call is no longer needed, for example on reset, on unmount or when a newer call
+ * supersede it. It can be passed directly to `fetch`. Instead of a promise, it can return an
+ * `AsyncIterable` or a `ReadableStream`, in which case the state is `AsyncState.STREAMING` with the
+ * value accumulated so far until the stream ends. The arguments given to `trigger`, if any, come
+ * after the signal and the call info, so that these are in the same place however many arguments
+ * are given, for example when `trigger` is passed as an event handler.
+ */
+export type AsyncProducer<T, Args extends unknown[] = [], P = number> = (
+  ...params: [AbortSignal, AsyncCallInfo<P>, ...Args]
+) => Promise<T> | AsyncStream<T>;
+
+/**
+ * What the promise returned by `trigger` resolves to when the call did not set the state, because
+ * it was dropped, superseded by a newer call, cancelled or reset.
+ */
+export const SUPERSEDED = 'superseded';
+
+/**
+ * The final state set by a triggered call, or `SUPERSEDED`.
+ */
+export type AsyncTriggerOutcome<T, E = Error, P = number> =
+    | [AsyncState.RESOLVED, T, null, AsyncStateMeta<T, P>?]
+    | [AsyncState.ERROR, null, E, AsyncStateMeta<T, P>?]
+    | typeof SUPERSEDED;
+
+/**
+ * Returned by `trigger`. A promise of the outcome of the call, which never rejects, with a
+ * `cancel` function which cancel the queued call and abort this call unless its result is still
+ * going to be used, like a `useEffect` cleanup.
+ */
+export type AsyncTriggerResult<T, E = Error, P = number> = Promise<AsyncTriggerOutcome<T, E, P>> & {
+  cancel: () => void;
+};
+
+export type AsyncTrigger<T, E = Error, Args extends unknown[] = [], P = number> = (
+  ...args: Args
+) => AsyncTriggerResult<T, E, P>;
 
-export interface Options {
+export type ConcurrencyStrategy = 'queue-latest' | 'switch' | 'exhaust' | 'queue-all' | 'parallel';
+
+export interface Options<E = Error, T = any> {
   /**
     * By default on subsequent async call, the state will switch back to loading state. Set to true
     * to disable this and skip directly to final state then the async call resolve.
@@ -43,10 +219,24 @@ export interface Options {
     * called), when previous async call was not completed, new call will only gets executed after
     * previous async call completed. Any repeated calls will be removed, meaning only one final
     * call will get executed. This is done to reduce the number of async call, which usually invoke
-    * some APIs on response to some user input.
+    * some APIs on response to some user input. Same as `concurrency: 'switch'`.
     */
   disableRequestDedup?: boolean;
 
+  /**
+   * What happens when a call is triggered while another one is running or debouncing.
+   * - `queue-latest`: the running call is aborted, and the new call waits for it to complete. A
+   *   call still waiting is dropped for a newer one. This is the default.
+   * - `switch`: the running call is aborted, and the new call runs immediately. This is the
+   *   default when `disableRequestDedup`, `debounceDelayMs` or `throttleMs` is set.
+   * - `exhaust`: the new call is ignored, and the running call goes on.
+   * - `queue-all`: every call runs one after the other, in order, and each updates the state.
+   * - `parallel`: every call runs immediately, none is aborted, and only the last triggered call
+   *   updates the state. This is the default when `updateStateOnAllCall` is also set, in which
+   *   case every call updates the state.
+   */
+  concurrency?: ConcurrencyStrategy;
+
   /**
    * By default the async state is updated only if there are no additional pending call. Set to true
    * to change that.
@@ -66,6 +256,31 @@ export interface Options {
    */
   debounceOnInitialCall?: boolean;
 
+  /**
+   * During continuous calls, the debounce is cut short so that a call start at most this amount
+   * after the first debounced call, instead of waiting for the calls to stop.
+   */
+  debounceMaxWaitMs?: number;
+
+  /**
+   * Start calls at most once every this amount. Calls triggered in between are delayed to the end
+   * of the interval, where only the last one runs. Reset by `reset()`.
+   */
+  throttleMs?: number;
+
+  /**
+   * With `throttleMs`, run a call immediately when no call started in the last interval. Defaults
+   * to true, unless `debounceOnInitialCall` is set, in which case even that call is delayed to the
+   * end of the interval.
+   */
+  throttleLeading?: boolean;
+
+  /**
+   * With `throttleMs`, run the last call triggered during an interval at its end. Defaults to
+   * true. When false, those calls are dropped.
+   */
+  throttleTrailing?: boolean;
+
   /**
    * By default, initially the state is AsyncState.LOADING. This is because for most use case,
    * data is loaded at the start. But when using `useManualAsyncState`, a separate state for before
@@ -73,253 +288,1817 @@ export interface Options {
    * Otherwise, it is false by default.
    */
   initiallyPending?: boolean;
-}
 
-/**
- * Behave the same as `useAsyncEffectState`, but the async call must be triggered manually via
- * the second return value. Useful when the async call needs to be triggered by a button, for
- * example. A re-trigger will have the same logic as if a `useEffect` block is re-called. It is
- * the app's responsibility to block additional trigger if not desired.
- */
-export function useManualAsyncState<T>(
-  producer: () => Promise<T>,
-  options?: Options,
-): [AsyncEffectState<T>, () => void, () => void] {
-  const effectiveOptions = {
-    ...{ initiallyPending: true },
-    ...(options || {}),
-  };
+  /**
+   * With `useAsyncEffectState`, the producer is not called while this is false, and the state stays
+   * in pending state, for example while a query waits for the result of another one, even if its
+   * `cacheKey` has data or `persist` restores some. The call is triggered as soon as it turns true.
+   * Turning it back to false cancels the queued and running calls, and goes back to pending state.
+   * Defaults to true.
+   */
+  enabled?: boolean;
 
-  const initialState = effectiveOptions?.initiallyPending ? AsyncState.PENDING : AsyncState.LOADING;
-  const [result, setResult] = useState<AsyncEffectState<T>>([
-    initialState,
-    null,
-    null,
-  ]);
-  const [currentState, data, err] = result;
+  /**
+   * Share the call and its result with every other hook using the same key, through the
+   * `AsyncStateCache` from the closest `AsyncStateCacheProvider` (or a global one). When the key
+   * has cached data, the hook starts resolved with it, and the call revalidate it in the
+   * background without switching to loading state. Data or errors put in the cache with
+   * `hydrate` are used on mount without calling the producer at all.
+   */
+  cacheKey?: string;
 
-  // When this function gets re-executed, a new producer is created which have it's own closure
-  // variables. So the queued update store the last producer function so that the right closure
-  // is called.
-  const updateQueued = useRef<(() => Promise<T>) | null>(null);
+  /**
+   * When using `cacheKey`, cached data younger than this amount is used as is without calling
+   * the producer. Defaults to 0, meaning the data is always revalidated.
+   */
+  staleTimeMs?: number;
 
-  // If a closure is running or debuncing, queue the last update function.
-  const updateRunning = useRef<number>(0);
+  /**
+   * When using `cacheKey`, the amount of time cached data is kept after no hook use its key
+   * anymore. Defaults to 5 minutes.
+   */
+  cacheTimeMs?: number;
 
-  // Used to determine if the state should be updated due to a new request.
-  const currentNonce = useRef<number>(0);
+  /**
+   * Re-run the producer when it rejects, before switching to error state. Either the maximum
+   * number of retries, or a predicate receiving the error and the attempt number that just
+   * failed, returning true to retry. By default, no retry is done.
+   */
+  retry?: number | ((error: any, attempt: number) => boolean);
 
-  const update = (queuedUpdate: boolean, updateProducer: () => Promise<T>) => {
-    let shouldQueue = false;
-    if (!effectiveOptions?.disableRequestDedup && !effectiveOptions?.debounceDelayMs) {
-      shouldQueue = true;
-    }
+  /**
+   * Delay before the first retry. Each following retry double the delay. Defaults to 1000.
+   */
+  retryDelayMs?: number;
 
-    if (updateRunning.current && shouldQueue) {
-      updateQueued.current = updateProducer;
-    } else {
-      updateRunning.current += 1;
+  /**
+   * Maximum delay between retries. Defaults to 30000.
+   */
+  retryMaxDelayMs?: number;
 
-      const updateNonce = currentNonce.current;
+  /**
+   * By default, retry delays are randomized between half and the full delay so that multiple
+   * clients don't retry at the same time. Set to true to always wait the full delay.
+   */
+  disableRetryJitter?: boolean;
 
-      if (!effectiveOptions?.noLoadingOnReload || currentState === AsyncState.PENDING) {
-        setResult([AsyncState.LOADING, null, null]);
-      }
+  /**
+   * Called before waiting for a retry, with the error and the attempt number that just failed.
+   */
+  onRetry?: (error: any, attempt: number) => void;
 
-      const shouldUpdateState = () => effectiveOptions?.updateStateOnAllCall
-          || (updateNonce === currentNonce.current && updateQueued.current === null);
+  /**
+   * Convert the error of a rejected call before it is set in the state, for example to turn
+   * strings or unknown objects thrown by the producer into a structured error type.
+   */
+  mapError?: (error: unknown) => E;
 
-      let shouldDebounce = false;
-      if (!queuedUpdate) {
-        if (effectiveOptions?.debounceDelayMs) {
-          if (updateRunning.current === 1) {
-            shouldDebounce = effectiveOptions?.debounceOnInitialCall === true;
-          } else {
-            shouldDebounce = true;
-          }
-        }
-      }
+  /**
+   * Only switch to loading state if the call is still running after this amount of milliseconds,
+   * staying in the previous state until then, so that fast calls don't flash the loading state.
+   * With `useAsyncEffectState`, this also makes `initiallyPending` default to true.
+   */
+  loadingDelayMs?: number;
 
-      const startingPromise = shouldDebounce
-        ? waitPromise(effectiveOptions?.debounceDelayMs)
-        : Promise.resolve();
+  /**
+   * Once the loading state is shown, keep it for at least this amount of milliseconds, so that it
+   * doesn't flash either.
+   */
+  minLoadingMs?: number;
 
-      startingPromise
-        .then(() => {
-          if (!shouldUpdateState()) {
-            return Promise.resolve();
-          }
-          return updateProducer()
-            .then((producedData) => {
-              if (shouldUpdateState()) {
-                setResult([AsyncState.RESOLVED, producedData, null]);
-              }
-            })
-            .catch((producedError) => {
-              if (shouldUpdateState()) {
-                setResult([AsyncState.ERROR, null, producedError]);
-              }
-            });
-        })
-        .finally(() => {
-          if (updateQueued.current) {
-            const queuedProducer = updateQueued.current;
-            updateQueued.current = null;
-            updateRunning.current -= 1;
-            update(true, queuedProducer);
-          } else {
-            updateRunning.current -= 1;
-          }
-        });
-    }
-  };
+  /**
+   * Reject an attempt with an `AsyncTimeoutError` when the producer did not complete within this
+   * amount of milliseconds. The producer's signal is aborted, and the attempt can be retried
+   * through the `retry` option.
+   */
+  timeoutMs?: number;
 
-  const trigger = () => {
-    currentNonce.current += 1;
-    update(false, producer);
+  /**
+   * Re-run the last triggered call every this amount of milliseconds. A refetch is skipped when a
+   * call is still running or queued, and while the app is hidden, as told by the
+   * `AsyncRefetchSource` of the closest `AsyncRefetchSourceProvider`. Refetches never switch to
+   * loading state, as if `noLoadingOnReload` is set. Stops on unmount or reset, until the next
+   * trigger.
+   */
+  refetchIntervalMs?: number;
 
-    return () => {
-      // For use with useEffect. This cancel queued call.
-      updateQueued.current = null;
-    };
-  };
+  /**
+   * Re-run the last triggered call when the window regains focus, as told by the
+   * `AsyncRefetchSource` of the closest `AsyncRefetchSourceProvider`. Like `refetchIntervalMs`,
+   * it never switches to loading state and is skipped while a call is running.
+   */
+  refetchOnWindowFocus?: boolean;
 
-  const reset = () => {
-    setResult([initialState, null, null]);
+  /**
+   * Re-run the last triggered call when the connection comes back, like `refetchOnWindowFocus`.
+   */
+  refetchOnReconnect?: boolean;
 
-    // Don't update state when/if current call is done
-    currentNonce.current = null;
+  /**
+   * With `refetchOnWindowFocus` or `refetchOnReconnect`, only refetch when the data is older than
+   * this amount of milliseconds. Defaults to 0.
+   */
+  refetchStaleTimeMs?: number;
 
-    // Also cancel any queued call
-    updateQueued.current = null;
-  };
+  /**
+   * Keep the last resolved data in a storage, `localStorage` by default, so that it survives
+   * reloads. Until a call resolves, the persisted data is shown in resolved state, flagged with
+   * `isRestored` in the state meta, while the call revalidates it in the background.
+   */
+  persist?: PersistOptions;
 
-  return [result, trigger, reset];
-}
+  /**
+   * When the producer returns a stream, reduce each chunk into the accumulated value. The first
+   * chunk is reduced with an undefined accumulated value. By default, the accumulated value is the
+   * last chunk.
+   */
+  streamReducer?: (accumulated: T | undefined, chunk: T) => T;
 
-/**
- * Utility for resolving `AsyncEffectState` to it's respective UI block.
- */
-export function asyncUIBlock<T>(
-  state: AsyncEffectState<any>,
-  onSuccess: (data: T) => React.ReactNode,
-  onError: (error: Error) => React.ReactNode,
-  onLoading?: () => React.ReactNode,
-  onPending?: () => React.ReactNode,
-): React.ReactNode | undefined {
-  const [status, data, error] = state;
+  /**
+   * Name of the hook in its lifecycle events.
+   */
+  label?: string;
 
-  if (status === AsyncState.LOADING) {
-    if (onLoading !== undefined) {
-      return onLoading();
-    }
-    return undefined;
-  }
+  /**
+   * Called on each lifecycle event of the hook, such as a call being queued, debounced or having
+   * its result discarded. Events of every hook can also be listened to with
+   * `subscribeAsyncEvents`.
+   */
+  onEvent?: (event: AsyncEvent) => void;
+}
 
-  if (status === AsyncState.PENDING) {
-    if (onPending !== undefined) {
-      return onPending();
-    }
-    return undefined;
+function getConcurrency(options: Options<any>): ConcurrencyStrategy {
+  if (options?.concurrency) {
+    return options.concurrency;
   }
-
-  if (status === AsyncState.ERROR) {
-    return onError(error);
+  if (options?.disableRequestDedup || options?.debounceDelayMs || options?.throttleMs) {
+    return options?.updateStateOnAllCall ? 'parallel' : 'switch';
   }
+  return 'queue-latest';
+}
 
-  return onSuccess(data);
+function lastChunk<T>(accumulated: T | undefined, chunk: T): T {
+  return chunk;
 }
 
 /**
- * Encapsulate the standard "useEffect to load async data to state" pattern. Works nearly like
- * `useEffect` but accept an async function and return the current state of the request.
+ * Returns a promise of what the producer returned. A stream is read until its end or until the
+ * signal is aborted, resolving to the last accumulated value.
  */
-export function useAsyncEffectState<T>(
-  producer: () => Promise<T>,
-  dependencies: DependencyList,
-  options?: Options,
-): AsyncEffectState<T> {
-  const effectiveOptions = {
-    ...{ initiallyPending: false },
-    ...(options || {}),
-  };
-
-  const [result, trigger] = useManualAsyncState(producer, effectiveOptions);
-
-  useEffect(trigger, dependencies);
+function toPromise<T>(
+  produced: Promise<T> | AsyncStream<T>,
+  options: Options<any, T>,
+  signal: AbortSignal,
+): Promise<T> {
+  if (!isAsyncStream(produced)) {
+    return produced;
+  }
+  return readStream(
+    produced,
+    options.streamReducer || lastChunk,
+    () => undefined,
+    signal,
+  );
+}
 
-  return result;
+function shouldRetry(options: Options<any>, error: any, attempt: number): boolean {
+  if (typeof options.retry === 'function') {
+    return options.retry(error, attempt);
+  }
+  return attempt <= (options.retry || 0);
 }
 
-/**
- * Map the input state if resolved through a mapper. The mapper should itself returns an
- * `AsyncEffectState<U>`. Note that the mapper runs conditionally, meaning it can't have React's
- * `useState` or any other use* calls including `useAsyncEffectState` which uses `useState` and
- * `useEffect` internally. It can however, return another `AsyncEffectState<U>` from it's closure.
- */
-export function flatMap<T, U>(
-  mapper: (input: T) => AsyncEffectState<U>,
-  input: AsyncEffectState<T>,
-): AsyncEffectState<U> {
-  const [state, result, err] = input;
-  if (state !== AsyncState.RESOLVED) {
-    return input;
+function getRetryDelayMs(options: Options<any>, attempt: number): number {
+  const baseDelayMs = options.retryDelayMs ?? 1000;
+  const maxDelayMs = options.retryMaxDelayMs ?? 30000;
+  const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  if (options.disableRetryJitter) {
+    return delayMs;
   }
+  return delayMs / 2 + (Math.random() * delayMs) / 2;
+}
+
+interface AsyncCall<T, P = number> {
+  // Identify the call in lifecycle events.
+  id: number;
+  producer: AsyncProducer<T, [], P>;
+  controller: AbortController;
+  cacheKey?: string;
 
-  return mapper(result);
+  // Background calls are not debounced and never switch to loading state.
+  background?: boolean;
+
+  // Resolve the promise returned by `trigger`. Only the first outcome counts.
+  settle?: (outcome: AsyncTriggerOutcome<T, any, P>) => void;
 }
 
 /**
- * Simple synchronous mapper for the `AsyncEffectState` which only map the result when the state is
- * resolved. Useful for transforming the data without using the async function passed in the
- * useAsyncEffectState which will probably require another http call.
+ * Where an `AsyncStateMachine` stores shared data for `cacheKey`, the timers it uses, and where
+ * it learns about focus and reconnection. Default to the global cache, the real timers and the
+ * window events, like hooks without a provider.
  */
-export function map<T, U>(
-  mapper: (input: T) => U,
-  input: AsyncEffectState<T>,
-): AsyncEffectState<U> {
-  const [state, result, err] = input;
-  if (state !== AsyncState.RESOLVED) {
-    return input;
-  }
-
-  return [AsyncState.RESOLVED, mapper(result), null];
+export interface AsyncStateMachineEnvironment {
+  cache?: AsyncStateCache;
+  scheduler?: AsyncScheduler;
+  refetchSource?: AsyncRefetchSource;
 }
 
 /**
- * Synchronously combine two `AsyncEffectState` into one.
+ * The state and the call logic of `useManualAsyncState`, usable outside of React components, for
+ * example in a service layer, and testable without rendering. `trigger` and `reset` work like
+ * the second and third return values of the hook, while `getSnapshot` and `subscribe` follow the
+ * contract of `useSyncExternalStore`. While it has subscribers, the machine also picks up data
+ * resolved by others using its `cacheKey`, and refetch every `refetchIntervalMs`, or on focus and
+ * reconnect.
  */
-export function combine<T1, T2, U>(
-  combiner: (input1: T1, input2: T2) => U,
-  input1: AsyncEffectState<T1>,
-  input2: AsyncEffectState<T2>,
-): AsyncEffectState<U> {
-  const [state1, result1, err1] = input1;
-  const [state2, result2, err2] = input2;
+export class AsyncStateMachine<T, E = Error, Args extends unknown[] = [], P = number> {
+  private producer: AsyncProducer<T, Args, P>;
 
-  if (state1 === AsyncState.ERROR) {
-    return input1;
-  }
+  private options: Options<E, T>;
 
-  if (state2 === AsyncState.ERROR) {
-    return input2;
-  }
+  private cache: AsyncStateCache;
 
-  if (state1 === AsyncState.PENDING) {
-    return input1;
-  }
+  private scheduler: AsyncScheduler;
+
+  private refetchSource: AsyncRefetchSource;
+
+  private state: AsyncEffectState<T, E, P>;
+
+  // The state before persisted data is restored, which is what the server rendered.
+  private serverState: AsyncEffectState<T, E, P>;
+
+  private listeners: Array<() => void> = [];
+
+  // The last successful call, carried in the state meta as previous data. Cleared on reset.
+  private lastSuccess: CachedData<T> | null = null;
+
+  // When the loading state was last shown, for `minLoadingMs`.
+  private loadingShownAt: number | null = null;
+
+  // Whether the last success was restored by `persist`, and whether it can still be.
+  private restored = false;
+
+  private restoring = false;
+
+  // A new call triggered while one is running or debouncing is queued here along with its abort
+  // controller, so that it is called with the producer it was triggered with. Only `queue-all`
+  // keeps more than one.
+  private updateQueued: AsyncCall<T, P>[] = [];
 
-  if (state2 === AsyncState.PENDING) {
-    return input2;
+  // Number of calls running or debouncing.
+  private updateRunning = 0;
+
+  // Abort controller of calls that are running or debouncing.
+  private runningControllers: AbortController[] = [];
+
+  // Used to determine if the state should be updated due to a new request.
+  private currentNonce = 0;
+
+  // The last triggered call, re-run by `refetchIntervalMs`. Cleared on reset.
+  private lastCall: Pick<AsyncCall<T, P>, 'producer' | 'cacheKey'> | null = null;
+
+  // Arguments of the last triggered call, reused by `retry`.
+  private lastArgs = [] as unknown as Args;
+
+  // Id of the last call, for lifecycle events.
+  private lastCallId = 0;
+
+  // Until when calls are throttled, for `throttleMs`. Cleared on reset.
+  private throttledUntil: number | null = null;
+
+  // The call waiting for the end of the throttle interval. It only supersedes the running call
+  // once it starts.
+  private throttledCall: AsyncCall<T, P> | null = null;
+
+  // When the first of the calls debounced since the last start was triggered, for
+  // `debounceMaxWaitMs`. Cleared on reset.
+  private debounceStartedAt: number | null = null;
+
+  // Stop listening to the cache and refetching on interval, focus or reconnect, set while the
+  // machine has subscribers.
+  private unsubscribeCache: (() => void) | null = null;
+
+  private stopRefetching: (() => void) | null = null;
+
+  constructor(
+    producer: AsyncProducer<T, Args, P>,
+    options?: Options<E, T>,
+    environment?: AsyncStateMachineEnvironment,
+  ) {
+    this.setup(producer, options, environment);
+
+    // While disabled, the state is pending, whatever the cache or the storage has.
+    const { cacheKey, enabled } = this.options;
+    const seeded = cacheKey !== undefined && enabled !== false;
+    const cached = seeded ? this.cache.peek<T>(cacheKey) : undefined;
+    const failure = seeded && this.cache.isHydrated(cacheKey)
+      ? this.cache.peekError(cacheKey) : undefined;
+    if (cached) {
+      this.setLastSuccess(cached);
+      this.state = [AsyncState.RESOLVED, cached.data, null, this.stateMeta(false)];
+    } else if (failure) {
+      const error = this.options.mapError ? this.options.mapError(failure.error) : failure.error;
+      this.state = [AsyncState.ERROR, null, error, this.errorMeta(false)];
+    } else {
+      this.state = [this.getInitialState(), null, null, this.stateMeta(false)];
+    }
+    this.serverState = this.state;
+    if (!cached && !failure && this.options.persist && enabled !== false) {
+      this.restoring = true;
+      restorePersisted(this.options.persist, this.scheduler.now(), (restored) => {
+        this.restore(restored as CachedData<T>);
+      });
+    }
   }
 
-  if (state1 === AsyncState.LOADING) {
-    return input1;
+  /**
+   * Replace the producer, options and environment used from the next call on. The hooks call this
+   * on every render so that the latest closure is used. It has no side effect, so that it is safe
+   * during a render that may be discarded: a new cache, cache key or refetch option is only
+   * listened to once every subscriber unsubscribed and a new one subscribed.
+   */
+  configure(
+    producer: AsyncProducer<T, Args, P>,
+    options?: Options<E, T>,
+    environment?: AsyncStateMachineEnvironment,
+  ) {
+    this.setup(producer, options, environment);
   }
 
-  if (state2 === AsyncState.LOADING) {
-    return input2;
+  /**
+   * Returns the current state. The same array is returned until the state changes.
+   */
+  getSnapshot = (): AsyncEffectState<T, E, P> => this.state;
+
+  /**
+   * Returns the state the machine started with, before persisted data was restored, so that a
+   * component hydrating server rendered HTML first renders what the server did.
+   */
+  getServerSnapshot = (): AsyncEffectState<T, E, P> => this.serverState;
+
+  /**
+   * Call the listener on every state change. Returns a function to remove the listener.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.push(listener);
+    if (this.listeners.length === 1) {
+      this.subscribeCache();
+      this.startRefetching();
+    }
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) {
+        return;
+      }
+      subscribed = false;
+      this.listeners.splice(this.listeners.indexOf(listener), 1);
+      if (this.listeners.length === 0) {
+        this.unsubscribeCache?.();
+        this.stopRefetching?.();
+      }
+    };
+  };
+
+  /**
+   * Start a call, passing the arguments to the producer after the signal and the call info.
+   * Returns a promise of the outcome of the call, with a function to cancel it.
+   */
+  trigger = (...args: Args): AsyncTriggerResult<T, E, P> => {
+    this.lastArgs = args;
+    const { options } = this;
+    const { cacheKey } = options;
+    const controller = new AbortController();
+    const callProducer = this.createCallProducer(args);
+    let settle: (outcome: AsyncTriggerOutcome<T, E, P>) => void;
+    const outcome = new Promise<AsyncTriggerOutcome<T, E, P>>((resolve) => {
+      settle = resolve;
+    });
+    const call = this.newCall({
+      producer: callProducer, controller, cacheKey, settle,
+    });
+    const concurrency = getConcurrency(options);
+    const supersedeRunning = this.shouldSupersedeRunning();
+    const throttleDelayMs = this.getThrottleDelayMs();
+
+    if ((concurrency === 'exhaust' && this.updateRunning) || throttleDelayMs === null) {
+      this.emit('dropped-as-duplicate', call);
+      settle(SUPERSEDED);
+      return Object.assign(outcome, { cancel: () => undefined });
+    }
+
+    const start = () => {
+      this.currentNonce += 1;
+      if (supersedeRunning) {
+        this.abortRunning();
+      }
+
+      this.lastCall = { producer: callProducer, cacheKey };
+      this.update(false, call);
+    };
+
+    if (throttleDelayMs > 0) {
+      this.cancelThrottled(true);
+      this.throttledCall = call;
+      this.emit('debounce-started', call, { delayMs: throttleDelayMs });
+      waitPromise(throttleDelayMs, controller.signal, this.scheduler).then(() => {
+        this.throttledCall = null;
+        start();
+      }, () => settle(SUPERSEDED));
+    } else {
+      start();
+    }
+
+    const cancel = () => {
+      // With `throttleMs`, the next call aborts this one when it starts.
+      if (concurrency === 'queue-latest' || concurrency === 'switch') {
+        this.cancelQueued(true);
+      }
+      if (supersedeRunning && !options?.throttleMs) {
+        controller.abort();
+      }
+    };
+    return Object.assign(outcome, { cancel });
+  };
+
+  /**
+   * Record a call with these arguments as the last one without running it, so that it is the one
+   * re-run by `retry`, `refetchIntervalMs`, or on focus and reconnect. Used by
+   * `useAsyncEffectState` when the data of its first call was hydrated.
+   */
+  skipTrigger = (...args: Args) => {
+    this.lastArgs = args;
+    this.lastCall = { producer: this.createCallProducer(args), cacheKey: this.options.cacheKey };
+  };
+
+  /**
+   * Trigger the last call again, with the same arguments. Set as `retry` in the meta of error
+   * states.
+   */
+  retry = (): AsyncTriggerResult<T, E, P> => this.trigger(...this.lastArgs);
+
+  /**
+   * Go back to the initial state, cancelling every call.
+   */
+  reset = () => {
+    this.setLastSuccess(null);
+    this.setState([this.getInitialState(), null, null, this.stateMeta(false)]);
+
+    // Don't update state when/if current call is done
+    this.currentNonce = null;
+
+    // Also cancel any queued or throttled call, and abort the running one
+    this.abort();
+
+    // And stop refetching, or restoring persisted data
+    this.lastCall = null;
+    this.restoring = false;
+
+    // The next call starts a new throttle interval and debounce.
+    this.throttledUntil = null;
+    this.debounceStartedAt = null;
+
+    this.emit('reset', null);
+  };
+
+  /**
+   * Cancel the queued and throttled calls and abort the running ones, keeping the current state.
+   * Used by the hooks on unmount.
+   */
+  abort() {
+    this.cancelQueued(false);
+    this.cancelThrottled(false);
+    this.abortRunning();
+  }
+
+  private setup(
+    producer: AsyncProducer<T, Args, P>,
+    options?: Options<E, T>,
+    environment?: AsyncStateMachineEnvironment,
+  ) {
+    this.producer = producer;
+    this.options = {
+      ...{ initiallyPending: true },
+      ...(options || {}),
+    };
+    this.cache = environment?.cache || defaultCache;
+    this.scheduler = environment?.scheduler || realScheduler;
+    this.refetchSource = environment?.refetchSource || windowRefetchSource;
+  }
+
+  // The producer of a call with these arguments, sharing the call through the cache when using
+  // `cacheKey`.
+  private createCallProducer(args: Args): AsyncProducer<T, [], P> {
+    const { producer, options, cache } = this;
+    const { cacheKey } = options;
+    const argsProducer: AsyncProducer<T, [], P> = (signal, info) => producer(signal, info, ...args);
+    if (cacheKey === undefined) {
+      return argsProducer;
+    }
+    return (signal, info) => cache.fetch(
+      cacheKey,
+      // Streams are not shared, only their final value is.
+      (sharedSignal) => toPromise(argsProducer(sharedSignal, info), options, sharedSignal),
+      signal,
+      { staleTimeMs: options?.staleTimeMs },
+    );
+  }
+
+  private getInitialState(): AsyncState.PENDING | AsyncState.LOADING {
+    return this.options.initiallyPending ? AsyncState.PENDING : AsyncState.LOADING;
+  }
+
+  private setState(state: AsyncEffectState<T, E, P>) {
+    if (state[0] === AsyncState.LOADING && this.state[0] !== AsyncState.LOADING) {
+      this.loadingShownAt = this.scheduler.now();
+    }
+    this.state = state;
+    this.listeners.slice().forEach((listener) => listener());
+  }
+
+  // With `minLoadingMs`, the final state of a call waits until the loading state was shown long
+  // enough, unless the call is superseded in the meantime.
+  private setFinalState(
+    state: AsyncTriggerOutcome<T, E, P> & AsyncEffectState<T, E, P>,
+    call: AsyncCall<T, P>,
+    shouldUpdateState: () => boolean,
+  ): Promise<void> {
+    const remainingMs = this.state[0] === AsyncState.LOADING && this.options.minLoadingMs
+      ? this.loadingShownAt + this.options.minLoadingMs - this.scheduler.now()
+      : 0;
+    if (remainingMs <= 0) {
+      this.setState(state);
+      call.settle?.(state);
+      return Promise.resolve();
+    }
+    return waitPromise(remainingMs, call.controller.signal, this.scheduler).then(() => {
+      if (shouldUpdateState()) {
+        this.setState(state);
+        call.settle?.(state);
+      }
+    }, () => undefined);
+  }
+
+  private stateMeta(isRefetching: boolean): AsyncStateMeta<T, P> {
+    if (!this.lastSuccess) {
+      return { isRefetching: false, updatedAt: null };
+    }
+    const meta: AsyncStateMeta<T, P> = {
+      previousData: this.lastSuccess.data,
+      isRefetching,
+      updatedAt: this.lastSuccess.updatedAt,
+    };
+    if (this.restored) {
+      meta.isRestored = true;
+    }
+    return meta;
+  }
+
+  private errorMeta(isRefetching: boolean): AsyncStateMeta<T, P> {
+    return { ...this.stateMeta(isRefetching), retry: this.retry };
+  }
+
+  private setLastSuccess(lastSuccess: CachedData<T> | null, restored = false) {
+    this.lastSuccess = lastSuccess;
+    this.restored = restored;
+  }
+
+  // Persisted data is shown until a call resolves, unless one already did.
+  private restore(restored: CachedData<T>) {
+    const [state] = this.state;
+    if (!this.restoring || this.lastSuccess
+        || (state !== AsyncState.PENDING && state !== AsyncState.LOADING)) {
+      return;
+    }
+    this.restoring = false;
+    this.setLastSuccess(restored, true);
+    this.setState([
+      AsyncState.RESOLVED,
+      restored.data,
+      null,
+      this.stateMeta(this.updateRunning > 0),
+    ]);
+  }
+
+  private emit(type: AsyncEventType, call: AsyncCall<T, P> | null, details?: Partial<AsyncEvent>) {
+    emitAsyncEvent({
+      type,
+      label: this.options.label,
+      callId: call?.id,
+      timestamp: this.scheduler.now(),
+      ...details,
+    }, this.options.onEvent);
+  }
+
+  private newCall(call: Omit<AsyncCall<T, P>, 'id'>): AsyncCall<T, P> {
+    this.lastCallId += 1;
+    const created = { ...call, id: this.lastCallId };
+    this.emit('triggered', created);
+    return created;
+  }
+
+  // A queued call cancelled when a newer call is triggered is reported as dropped, unlike on
+  // reset or unmount.
+  private cancelQueued(superseded: boolean) {
+    const queued = this.updateQueued;
+    this.updateQueued = [];
+    queued.forEach((queuedCall) => {
+      if (superseded) {
+        this.emit('dropped-as-duplicate', queuedCall);
+      }
+      queuedCall.controller.abort();
+      queuedCall.settle?.(SUPERSEDED);
+    });
+  }
+
+  private abortRunning() {
+    this.runningControllers.forEach((controller) => controller.abort());
+  }
+
+  private cancelThrottled(superseded: boolean) {
+    if (this.throttledCall) {
+      if (superseded) {
+        this.emit('dropped-as-duplicate', this.throttledCall);
+      }
+      this.throttledCall.controller.abort();
+      this.throttledCall.settle?.(SUPERSEDED);
+      this.throttledCall = null;
+    }
+  }
+
+  // With these, a new call abort the running one, unless its result is still going to be used.
+  private shouldSupersedeRunning(): boolean {
+    const concurrency = getConcurrency(this.options);
+    return concurrency === 'switch'
+      || (concurrency === 'queue-latest' && !this.options.updateStateOnAllCall);
+  }
+
+  private update(queuedUpdate: boolean, call: AsyncCall<T, P>) {
+    const { options, scheduler } = this;
+    const { controller } = call;
+    const concurrency = getConcurrency(options);
+
+    if (this.updateRunning && concurrency === 'queue-latest') {
+      this.cancelQueued(true);
+      this.updateQueued = [call];
+      this.emit('queued', call);
+      return;
+    }
+    if (this.updateRunning && concurrency === 'queue-all') {
+      this.updateQueued.push(call);
+      this.emit('queued', call);
+      return;
+    }
+
+    this.updateRunning += 1;
+    this.runningControllers.push(controller);
+
+    const updateNonce = this.currentNonce;
+
+    // Cached data is shown while it is being revalidated.
+    // An aborted call never update the state, even if the producer ignore the signal.
+    const shouldUpdateState = () => !controller.signal.aborted
+        && (options?.updateStateOnAllCall
+          || concurrency === 'queue-all'
+          || (updateNonce === this.currentNonce && this.updateQueued.length === 0));
+
+    // With `loadingDelayMs`, the loading state is only shown if the call is still running by then.
+    let loadingTimer: unknown = null;
+    const cancelLoadingDelay = () => {
+      if (loadingTimer !== null) {
+        scheduler.clearTimeout(loadingTimer);
+        loadingTimer = null;
+      }
+    };
+
+    const cached = call.cacheKey !== undefined ? this.cache.peek<T>(call.cacheKey) : undefined;
+    if (cached) {
+      this.setLastSuccess(cached);
+      this.setState([AsyncState.RESOLVED, cached.data, null, this.stateMeta(true)]);
+    } else if (!call.background && !this.restored
+        && (!options?.noLoadingOnReload || this.state[0] === AsyncState.PENDING)) {
+      if (options.loadingDelayMs) {
+        this.setState(withMeta(this.state, this.stateMeta(true)));
+        loadingTimer = scheduler.setTimeout(() => {
+          loadingTimer = null;
+          if (shouldUpdateState()) {
+            this.setState([AsyncState.LOADING, null, null, this.stateMeta(true)]);
+          }
+        }, options.loadingDelayMs);
+      } else {
+        this.setState([AsyncState.LOADING, null, null, this.stateMeta(true)]);
+      }
+    } else {
+      // The current state is kept, but flagged as refetching.
+      this.setState(withMeta(this.state, this.stateMeta(true)));
+    }
+
+    let shouldDebounce = false;
+    if (!queuedUpdate && !call.background) {
+      if (options?.debounceDelayMs) {
+        if (this.updateRunning === 1) {
+          shouldDebounce = options?.debounceOnInitialCall === true;
+        } else {
+          shouldDebounce = true;
+        }
+      }
+    }
+
+    let startDelayMs = 0;
+    if (shouldDebounce) {
+      startDelayMs = options?.debounceDelayMs;
+      if (options?.debounceMaxWaitMs) {
+        if (this.debounceStartedAt === null) {
+          this.debounceStartedAt = scheduler.now();
+        }
+        const maxWaitLeftMs = this.debounceStartedAt + options.debounceMaxWaitMs
+          - scheduler.now();
+        startDelayMs = Math.max(0, Math.min(startDelayMs, maxWaitLeftMs));
+      }
+    }
+
+    if (startDelayMs > 0) {
+      this.emit('debounce-started', call, { delayMs: startDelayMs });
+    }
+
+    // The timer is cleared when the call is aborted, by a newer call, a reset or unmount.
+    const startingPromise = startDelayMs > 0
+      ? waitPromise(startDelayMs, controller.signal, scheduler).catch(() => undefined)
+      : Promise.resolve();
+
+    startingPromise
+      .then(() => {
+        if (!shouldUpdateState()) {
+          if (startDelayMs > 0) {
+            this.emit('debounce-cancelled', call);
+          }
+          return Promise.resolve();
+        }
+        if (options?.throttleMs) {
+          this.throttledUntil = scheduler.now() + options.throttleMs;
+        }
+        this.debounceStartedAt = null;
+
+        // Progress reported after the call completed is ignored too.
+        let settled = false;
+        const reportProgress = (progress: P) => {
+          if (!settled && shouldUpdateState()) {
+            this.setState(withMeta(this.state, { ...getMeta(this.state), progress }));
+          }
+        };
+
+        const runProducer = (attempt: number): Promise<T> => {
+          this.emit('producer-started', call, { attempt });
+
+          // With a timeout, each attempt has its own controller, so that a timed out attempt can
+          // be aborted without aborting the call.
+          const { timeoutMs } = options;
+          const attemptController = timeoutMs ? new AbortController() : controller;
+          const abortAttempt = () => attemptController.abort();
+          if (attemptController !== controller) {
+            controller.signal.addEventListener('abort', abortAttempt, { once: true });
+          }
+
+          const produced = call.producer(attemptController.signal, { attempt, reportProgress });
+          let producedPromise: Promise<T> = isAsyncStream(produced)
+            ? readStream(
+              produced,
+              options?.streamReducer || lastChunk,
+              (accumulated) => {
+                cancelLoadingDelay();
+                this.setState([AsyncState.STREAMING, accumulated, null, this.stateMeta(true)]);
+              },
+              // A superseded or timed out stream is cancelled.
+              attemptController.signal,
+              shouldUpdateState,
+            )
+            : produced;
+          if (timeoutMs) {
+            producedPromise = withTimeout(producedPromise, timeoutMs, attemptController, scheduler);
+          }
+
+          // The call outlives the attempt, so its listener is removed once the attempt settles.
+          return producedPromise.finally(() => {
+            controller.signal.removeEventListener('abort', abortAttempt);
+          }).catch((producedError) => {
+            if (!shouldUpdateState() || !shouldRetry(options, producedError, attempt)) {
+              throw producedError;
+            }
+            options?.onRetry?.(producedError, attempt);
+            this.setState(withMeta(this.state, { ...getMeta(this.state), attempt: attempt + 1 }));
+
+            // The delay is cut short when the call is aborted, which cancel the retry.
+            const delayMs = getRetryDelayMs(options, attempt);
+            return waitPromise(delayMs, controller.signal, scheduler)
+              .then(() => runProducer(attempt + 1));
+          });
+        };
+
+        return runProducer(1)
+          .then((producedData) => {
+            settled = true;
+            cancelLoadingDelay();
+            this.emit('resolved', call);
+            if (!shouldUpdateState()) {
+              this.emit('state-update-suppressed', call);
+              return Promise.resolve();
+            }
+            // Data served from the cache is as old as the cache entry.
+            const cachedData = call.cacheKey !== undefined
+              ? this.cache.peek<T>(call.cacheKey) : undefined;
+            this.setLastSuccess(cachedData?.data === producedData
+              ? cachedData
+              : { data: producedData, updatedAt: scheduler.now() });
+            if (options.persist) {
+              writePersisted(options.persist, producedData, this.lastSuccess.updatedAt);
+            }
+            return this.setFinalState([
+              AsyncState.RESOLVED,
+              producedData,
+              null,
+              this.stateMeta(this.updateRunning > 1),
+            ], call, shouldUpdateState);
+          })
+          .catch((producedError) => {
+            settled = true;
+            cancelLoadingDelay();
+            this.emit('rejected', call, { error: producedError });
+            if (!shouldUpdateState()) {
+              this.emit('state-update-suppressed', call);
+              return Promise.resolve();
+            }
+            return this.setFinalState([
+              AsyncState.ERROR,
+              null,
+              options?.mapError ? options.mapError(producedError) : producedError,
+              this.errorMeta(this.updateRunning > 1),
+            ], call, shouldUpdateState);
+          });
+      })
+      .finally(() => {
+        cancelLoadingDelay();
+        this.runningControllers = this.runningControllers
+          .filter((runningController) => runningController !== controller);
+
+        // Unless it already set the state.
+        call.settle?.(SUPERSEDED);
+
+        if (this.updateQueued.length > 0) {
+          const queued = this.updateQueued.shift();
+          this.updateRunning -= 1;
+          this.update(true, queued);
+        } else {
+          this.updateRunning -= 1;
+        }
+      });
+  }
+
+  // Returns how long a new call should wait for the throttle interval, or null if it is dropped.
+  private getThrottleDelayMs(): number | null {
+    const { throttleMs } = this.options;
+    if (!throttleMs) {
+      return 0;
+    }
+    const now = this.scheduler.now();
+    const leading = this.options.throttleLeading ?? !this.options.debounceOnInitialCall;
+    if (this.throttledUntil === null || now >= this.throttledUntil) {
+      if (leading) {
+        return 0;
+      }
+      // Without leading edge, the interval starts with this call, which runs at its end.
+      this.throttledUntil = now + throttleMs;
+      return throttleMs;
+    }
+    if (this.options.throttleTrailing === false) {
+      return null;
+    }
+    return this.throttledUntil - now;
+  }
+
+  private refetch() {
+    // Never overlap with a running call, which also means there is nothing queued.
+    if (!this.lastCall || this.updateRunning) {
+      return;
+    }
+    if (this.refetchSource.isVisible && !this.refetchSource.isVisible()) {
+      return;
+    }
+    this.update(false, this.newCall({
+      ...this.lastCall,
+      controller: new AbortController(),
+      background: true,
+    }));
+  }
+
+  // Data younger than `refetchStaleTimeMs` is not refetched on focus or reconnect.
+  private refetchIfStale() {
+    const staleTimeMs = this.options.refetchStaleTimeMs || 0;
+    if (this.lastSuccess && this.scheduler.now() - this.lastSuccess.updatedAt < staleTimeMs) {
+      return;
+    }
+    this.refetch();
+  }
+
+  private startRefetching() {
+    const { refetchIntervalMs, refetchOnWindowFocus, refetchOnReconnect } = this.options;
+    const { scheduler, refetchSource } = this;
+    const stops: Array<() => void> = [];
+    this.stopRefetching = () => stops.forEach((stop) => stop());
+
+    if (refetchIntervalMs) {
+      let timer: unknown;
+      const scheduleRefetch = () => {
+        timer = scheduler.setTimeout(() => {
+          this.refetch();
+          scheduleRefetch();
+        }, refetchIntervalMs);
+      };
+      scheduleRefetch();
+      stops.push(() => scheduler.clearTimeout(timer));
+    }
+    if (refetchOnWindowFocus) {
+      stops.push(refetchSource.onFocus(() => this.refetchIfStale()));
+    }
+    if (refetchOnReconnect) {
+      stops.push(refetchSource.onReconnect(() => this.refetchIfStale()));
+    }
+  }
+
+  // Pick up data resolved by others using the same key. While a call of this machine is running,
+  // its own result sets the state instead, so that it goes through `minLoadingMs`.
+  private subscribeCache() {
+    const { cacheKey } = this.options;
+    this.unsubscribeCache = null;
+    if (cacheKey === undefined) {
+      return;
+    }
+    this.unsubscribeCache = this.cache.subscribe<T>(cacheKey, (cachedData) => {
+      if (this.state[0] === AsyncState.PENDING || this.updateRunning > 0) {
+        return;
+      }
+      this.setLastSuccess({ data: cachedData, updatedAt: this.scheduler.now() });
+      this.setState([
+        AsyncState.RESOLVED,
+        cachedData,
+        null,
+        this.stateMeta(this.updateRunning > 0),
+      ]);
+    }, this.options.cacheTimeMs);
+  }
+}
+
+// Keeps an `AsyncStateMachine` for the component, read through `useSyncExternalStore`.
+function useAsyncStateMachine<T, E, P>(
+  producer: (...params: any) => Promise<T> | AsyncStream<T>,
+  options?: Options<E, T>,
+): [AsyncEffectState<T, E, P>, AsyncStateMachine<T, E, any, P>] {
+  const environment = {
+    cache: useAsyncStateCache(),
+    scheduler: useAsyncScheduler(),
+    refetchSource: useAsyncRefetchSource(),
+  };
+  const [machine] = useState(
+    () => new AsyncStateMachine<T, E, any, P>(producer, options, environment),
+  );
+
+  // Calls triggered from now on use the closure of this render.
+  machine.configure(producer, options, environment);
+
+  // Subscribing again once committed makes the machine listen to the new cache key or refetch
+  // options.
+  const subscribe = useCallback((onStoreChange: () => void) => machine.subscribe(onStoreChange), [
+    machine,
+    environment.cache,
+    environment.scheduler,
+    environment.refetchSource,
+    options?.cacheKey,
+    options?.refetchIntervalMs,
+    options?.refetchOnWindowFocus,
+    options?.refetchOnReconnect,
+  ]);
+  const result = useSyncExternalStore(subscribe, machine.getSnapshot, machine.getServerSnapshot);
+
+  // Abort everything on unmount.
+  useEffect(() => () => machine.abort(), []);
+
+  return [result, machine];
+}
+
+/**
+ * Behave the same as `useAsyncEffectState`, but the async call must be triggered manually via
+ * the second return value. Useful when the async call needs to be triggered by a button, for
+ * example. A re-trigger will have the same logic as if a `useEffect` block is re-called. It is
+ * the app's responsibility to block additional trigger if not desired. The state is kept in an
+ * `AsyncStateMachine`, read through `useSyncExternalStore`.
+ *
+ * The arguments given to the trigger function are passed to the producer, after the signal and
+ * the call info. The trigger function returns a promise of the outcome of the call, with a
+ * `cancel` function.
+ */
+export function useManualAsyncState<T, E = Error, P = number>(
+  producer: AsyncProducer<T, [], P>,
+  options?: Options<E, T>,
+): [AsyncEffectState<T, E, P>, AsyncTrigger<T, E, [], P>, () => void];
+export function useManualAsyncState<T, E = Error, Args extends unknown[] = [], P = number>(
+  producer: AsyncProducer<T, Args, P>,
+  options?: Options<E, T>,
+): [AsyncEffectState<T, E, P>, AsyncTrigger<T, E, Args, P>, () => void];
+export function useManualAsyncState<T, E>(
+  producer: (...params: any) => Promise<T> | AsyncStream<T>,
+  options?: Options<E, T>,
+): [AsyncEffectState<T, E, any>, AsyncTrigger<T, E, any, any>, () => void] {
+  const [result, machine] = useAsyncStateMachine(producer, options);
+  return [result, machine.trigger, machine.reset];
+}
+
+/**
+ * Utility for resolving `AsyncEffectState` to it's respective UI block. Each block also receives
+ * the state meta, for example to keep showing the previous data while loading. Without
+ * `onStreaming`, the value streamed so far is passed to `onSuccess`. Without `onTimeout`, an
+ * `AsyncTimeoutError` is passed to `onError`.
+ */
+export function asyncUIBlock<T, E = Error, P = number>(
+  state: AsyncEffectState<T, E, P>,
+  onSuccess: (data: T, meta: AsyncStateMeta<T, P>) => React.ReactNode,
+  onError: (error: E, meta: AsyncStateMeta<T, P>) => React.ReactNode,
+  onLoading?: (meta: AsyncStateMeta<T, P>) => React.ReactNode,
+  onPending?: () => React.ReactNode,
+  onStreaming?: (data: T, meta: AsyncStateMeta<T, P>) => React.ReactNode,
+  onTimeout?: (error: AsyncTimeoutError, meta: AsyncStateMeta<T, P>) => React.ReactNode,
+): React.ReactNode | undefined {
+  const [status, data, error] = state;
+  const meta = getMeta(state);
+
+  if (status === AsyncState.LOADING) {
+    if (onLoading !== undefined) {
+      return onLoading(meta);
+    }
+    return undefined;
+  }
+
+  if (status === AsyncState.PENDING) {
+    if (onPending !== undefined) {
+      return onPending();
+    }
+    return undefined;
+  }
+
+  if (status === AsyncState.ERROR) {
+    if (onTimeout !== undefined && error instanceof AsyncTimeoutError) {
+      return onTimeout(error, meta);
+    }
+    return onError(error, meta);
+  }
+
+  if (status === AsyncState.STREAMING && onStreaming !== undefined) {
+    return onStreaming(data, meta);
+  }
+
+  return onSuccess(data, meta);
+}
+
+/**
+ * Renderers used by `AsyncView` for the states it is not given a renderer for.
+ */
+export interface AsyncRenderers {
+  loading?: (meta: AsyncStateMeta<any, any>) => React.ReactNode;
+  pending?: () => React.ReactNode;
+
+  /**
+   * The `retry` triggers the call which failed again. It is undefined if the state was not
+   * produced by `useAsyncEffectState` or `useManualAsyncState`, for example with `combine`.
+   */
+  error?: (
+    error: any,
+    retry: (() => void) | undefined,
+    meta: AsyncStateMeta<any, any>,
+  ) => React.ReactNode;
+}
+
+export const AsyncBoundaryContext = createContext<AsyncRenderers>({});
+
+/**
+ * Provide the default loading, pending and error renderers of the `AsyncView` below it. A renderer
+ * which is not given is inherited from the enclosing `AsyncBoundary`.
+ */
+export function AsyncBoundary(props: AsyncRenderers & {
+  children?: React.ReactNode,
+}) {
+  const {
+    loading, pending, error, children,
+  } = props;
+  const outer = useContext(AsyncBoundaryContext);
+
+  return React.createElement(
+    AsyncBoundaryContext.Provider,
+    {
+      value: {
+        loading: loading || outer.loading,
+        pending: pending || outer.pending,
+        error: error || outer.error,
+      },
+    },
+    children,
+  );
+}
+
+/**
+ * Returns the renderers provided by the closest `AsyncBoundary`.
+ */
+export function useAsyncRenderers(): AsyncRenderers {
+  return useContext(AsyncBoundaryContext);
+}
+
+export interface AsyncViewProps<T, E = Error, P = number> {
+  state: AsyncEffectState<T, E, P>;
+  resolved: (data: T, meta: AsyncStateMeta<T, P>) => React.ReactNode;
+
+  /**
+   * The `retry` triggers the call which failed again, if the state came from
+   * `useAsyncEffectState` or `useManualAsyncState`.
+   */
+  error?: (
+    error: E,
+    retry: (() => void) | undefined,
+    meta: AsyncStateMeta<T, P>,
+  ) => React.ReactNode;
+  loading?: (meta: AsyncStateMeta<T, P>) => React.ReactNode;
+  pending?: () => React.ReactNode;
+
+  /**
+   * Without it, the value streamed so far is passed to `resolved`.
+   */
+  streaming?: (data: T, meta: AsyncStateMeta<T, P>) => React.ReactNode;
+}
+
+/**
+ * Component version of `asyncUIBlock`, with a named prop for each state. The loading, pending and
+ * error renderers default to the ones of the closest `AsyncBoundary`. A state without any
+ * renderer renders nothing.
+ */
+export function AsyncView<T, E = Error, P = number>(props: AsyncViewProps<T, E, P>) {
+  const {
+    state, resolved, error, loading, pending, streaming,
+  } = props;
+  const renderers = useAsyncRenderers();
+  const onError = error || renderers.error;
+
+  return React.createElement(React.Fragment, null, asyncUIBlock(
+    state,
+    resolved,
+    (producedError, meta) => (onError ? onError(producedError, meta.retry, meta) : null),
+    loading || renderers.loading,
+    pending || renderers.pending,
+    streaming,
+  ));
+}
+
+/**
+ * Encapsulate the standard "useEffect to load async data to state" pattern. Works nearly like
+ * `useEffect` but accept an async function and return the current state of the request.
+ */
+export function useAsyncEffectState<T, E = Error, P = number>(
+  producer: AsyncProducer<T, [], P>,
+  dependencies: DependencyList,
+  options?: Options<E, T>,
+): AsyncEffectState<T, E, P> {
+  // With a loading delay, even the first call doesn't show the loading state right away. While
+  // disabled, the state is pending whatever `initiallyPending` is.
+  const effectiveOptions = {
+    ...{ initiallyPending: !!options?.loadingDelayMs },
+    ...(options || {}),
+    ...(options?.enabled === false ? { initiallyPending: true } : {}),
+  };
+  const enabled = effectiveOptions.enabled !== false;
+
+  const [result, machine] = useAsyncStateMachine<T, E, P>(producer, effectiveOptions);
+  const wasEnabled = useRef<boolean>(enabled);
+
+  // Data or error hydrated from a server render is used as is on mount, unless disabled.
+  const cache = useAsyncStateCache();
+  const skipInitialCall = useRef<boolean>(
+    enabled && effectiveOptions.cacheKey !== undefined
+      && cache.isHydrated(effectiveOptions.cacheKey),
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      if (wasEnabled.current) {
+        wasEnabled.current = false;
+        machine.reset();
+      }
+      return undefined;
+    }
+    wasEnabled.current = true;
+    if (skipInitialCall.current) {
+      // The skipped call is still the one refetched.
+      skipInitialCall.current = false;
+      machine.skipTrigger();
+      return undefined;
+    }
+    return machine.trigger().cancel;
+  }, [enabled, ...dependencies]);
+
+  return result;
+}
+
+export interface InfiniteOptions<C> {
+  /**
+   * The cursor passed to `fetchPage` for the first page. Defaults to undefined.
+   */
+  initialCursor?: C;
+}
+
+/**
+ * Hook for paginated data, such as a feed. The first page is loaded like `useAsyncEffectState`,
+ * and each following page is loaded by calling the second return value, with the cursor returned
+ * by `getNextCursor` for the last page. Returns the state of every page loaded so far, the fetch
+ * next page function, and whether there is a next page, which is when `getNextCursor` returns
+ * neither null nor undefined. Calling the fetch next page function while a page is loading does
+ * nothing. When the last page failed, it is loaded again instead. A dependency change restart from
+ * the first page.
+ */
+export function useInfiniteAsyncState<P, C>(
+  fetchPage: (cursor: C | undefined, signal: AbortSignal) => Promise<P>,
+  getNextCursor: (lastPage: P, pages: P[]) => C | null | undefined,
+  dependencies: DependencyList,
+  options?: InfiniteOptions<C>,
+): [AsyncEffectState<P>[], () => void, boolean] {
+  const [pages, setPages] = useState<AsyncEffectState<P>[]>([[AsyncState.LOADING, null, null]]);
+
+  // The cursor each page was loaded with, to load a failed page again.
+  const cursors = useRef<(C | undefined)[]>([]);
+
+  // Abort controller of the page being loaded, if any.
+  const loadingController = useRef<AbortController | null>(null);
+
+  const setPage = (index: number, page: AsyncEffectState<P>) => {
+    setPages((previous) => [...previous.slice(0, index), page]);
+  };
+
+  const loadPage = (index: number, cursor: C | undefined) => {
+    const controller = new AbortController();
+    loadingController.current = controller;
+    cursors.current = [...cursors.current.slice(0, index), cursor];
+    setPage(index, [AsyncState.LOADING, null, null]);
+
+    fetchPage(cursor, controller.signal)
+      .then((page) => {
+        if (!controller.signal.aborted) {
+          setPage(index, [AsyncState.RESOLVED, page, null]);
+        }
+      }, (error) => {
+        if (!controller.signal.aborted) {
+          setPage(index, [AsyncState.ERROR, null, error]);
+        }
+      })
+      .finally(() => {
+        if (loadingController.current === controller) {
+          loadingController.current = null;
+        }
+      });
+  };
+
+  useEffect(() => {
+    loadPage(0, options?.initialCursor);
+
+    return () => {
+      loadingController.current?.abort();
+      loadingController.current = null;
+    };
+  }, dependencies);
+
+  const lastPage = pages[pages.length - 1];
+  let nextCursor: C | null | undefined = null;
+  if (lastPage[0] === AsyncState.RESOLVED) {
+    const resolvedPages = pages
+      .filter(([state]) => state === AsyncState.RESOLVED)
+      .map(([, page]) => page);
+    nextCursor = getNextCursor(lastPage[1], resolvedPages);
+  }
+  const hasNextPage = nextCursor !== null && nextCursor !== undefined;
+
+  const fetchNextPage = () => {
+    // Deduplicate with the page being loaded.
+    if (loadingController.current) {
+      return;
+    }
+
+    if (lastPage[0] === AsyncState.ERROR) {
+      loadPage(pages.length - 1, cursors.current[pages.length - 1]);
+    } else if (hasNextPage) {
+      loadPage(pages.length, nextCursor);
+    }
+  };
+
+  return [pages, fetchNextPage, hasNextPage];
+}
+
+export interface MutationOptions<Args, T, C> {
+  /**
+   * Called before the mutation, typically to optimistically update the UI. The returned value,
+   * or what the returned promise resolve to, is passed as context to the other callbacks, for
+   * example to roll back the optimistic update on error.
+   */
+  onMutate?: (args: Args) => C | Promise<C>;
+
+  /**
+   * Called after the mutation resolved.
+   */
+  onSuccess?: (data: T, args: Args, context: C) => void;
+
+  /**
+   * Called after the mutation, or `onMutate`, rejected.
+   */
+  onError?: (error: any, args: Args, context: C | undefined) => void;
+
+  /**
+   * Called after either `onSuccess` or `onError`.
+   */
+  onSettled?: (data: T | null, error: any, args: Args, context: C | undefined) => void;
+}
+
+/**
+ * The outcome of a mutation, resolved by the trigger function of `useAsyncMutation`.
+ */
+export type AsyncMutationOutcome<T> = Exclude<AsyncTriggerOutcome<T, any>, typeof SUPERSEDED>;
+
+// An error thrown by a callback is thrown again outside of the promise chain, where error reporting
+// sees it, so that the trigger still resolves to the outcome.
+function runCallback(callback: () => void) {
+  try {
+    callback();
+  } catch (error) {
+    setTimeout(() => {
+      throw error;
+    }, 0);
+  }
+}
+
+/**
+ * Hook for running a mutation, such as a POST request, from an event handler. Returns the state of
+ * the last mutation, a trigger function which run the mutation with the given arguments and
+ * returns a promise of its outcome, and a reset function. Like the trigger of
+ * `useManualAsyncState`, the promise never rejects, so that it can be ignored by event handlers,
+ * even if a callback throws, in which case the error is thrown again as an uncaught error. Unlike
+ * `useManualAsyncState`, every trigger runs, and the state follows the last one.
+ */
+export function useAsyncMutation<Args, T, C = undefined>(
+  mutate: (args: Args) => Promise<T>,
+  options?: MutationOptions<Args, T, C>,
+): [AsyncEffectState<T>, (args: Args) => Promise<AsyncMutationOutcome<T>>, () => void] {
+  const [result, setResult] = useState<AsyncEffectState<T>>([AsyncState.PENDING, null, null]);
+
+  // Used to determine if the state should be updated, as only the last mutation update it.
+  const currentNonce = useRef<number>(0);
+
+  const trigger = (args: Args): Promise<AsyncMutationOutcome<T>> => {
+    currentNonce.current += 1;
+    const mutationNonce = currentNonce.current;
+    const shouldUpdateState = () => mutationNonce === currentNonce.current;
+
+    setResult([AsyncState.LOADING, null, null]);
+
+    let context: C | undefined;
+    return Promise.resolve()
+      .then(() => options?.onMutate?.(args))
+      .then((mutateContext) => {
+        context = mutateContext as C;
+        return mutate(args);
+      })
+      .then((data) => {
+        if (shouldUpdateState()) {
+          setResult([AsyncState.RESOLVED, data, null]);
+        }
+        runCallback(() => options?.onSuccess?.(data, args, context));
+        runCallback(() => options?.onSettled?.(data, null, args, context));
+        return [AsyncState.RESOLVED, data, null] as AsyncMutationOutcome<T>;
+      }, (error) => {
+        if (shouldUpdateState()) {
+          setResult([AsyncState.ERROR, null, error]);
+        }
+        runCallback(() => options?.onError?.(error, args, context));
+        runCallback(() => options?.onSettled?.(null, error, args, context));
+        return [AsyncState.ERROR, null, error] as AsyncMutationOutcome<T>;
+      });
+  };
+
+  const reset = () => {
+    setResult([AsyncState.PENDING, null, null]);
+
+    // Don't update state when/if current mutation is done
+    currentNonce.current += 1;
+  };
+
+  return [result, trigger, reset];
+}
+
+export type SuspenseOptions<T = any> = Pick<Options<Error, T>,
+'disableRequestDedup' | 'debounceDelayMs' | 'debounceOnInitialCall' | 'cacheTimeMs'
+| 'streamReducer'> & {
+  /**
+   * A component that suspend before it is mounted lose all of its state, so the call and its
+   * result are kept in the `AsyncStateCache` under this key, combined with the dependencies.
+   */
+  cacheKey: string;
+};
+
+// Suspense calls are never aborted, as a component suspended before it is mounted never get to
+// clean up.
+const neverAbortedSignal = new AbortController().signal;
+
+// A component which throws during its first render is never committed, and React renders it a few
+// more times before the error boundary is. The error is forgotten once all of these are done, on
+// the next tick of the scheduler, which is only scheduled by the first of these renders.
+const forgottenFailures = new WeakSet<CachedError>();
+
+/**
+ * Variant of `useAsyncEffectState` for use with React's `Suspense`. Instead of returning the
+ * state, it throws a promise while loading, throws the error to the nearest error boundary, and
+ * returns the data once resolved. The dependencies are serialized as part of the cache key, so
+ * they must be serializable to JSON. A dependency change suspend again, which can be kept off
+ * screen by updating it in a `startTransition`. Once thrown, the error is forgotten so that
+ * resetting the error boundary re-run the call.
+ */
+export function useSuspenseAsyncState<T>(
+  producer: AsyncProducer<T>,
+  dependencies: DependencyList,
+  options: SuspenseOptions<T>,
+): T {
+  const cache = useAsyncStateCache();
+  const scheduler = useAsyncScheduler();
+  const key = `${options.cacheKey}:${JSON.stringify(dependencies)}`;
+
+  // These only survive suspending once the component is mounted, which is when dedup and
+  // debounce matter.
+  const latestKey = useRef<string | null>(null);
+  const pending = useRef<{ key: string, promise: Promise<void> } | null>(null);
+  const running = useRef<Promise<void> | null>(null);
+  const mounted = useRef<boolean>(false);
+  const [, setVersion] = useState(0);
+
+  latestKey.current = key;
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  // Pick up data resolved by other hooks using the same key.
+  useEffect(
+    () => cache.subscribe(key, () => setVersion((version) => version + 1), options.cacheTimeMs),
+    [cache, key],
+  );
+
+  const cached = cache.peek<T>(key);
+  const failure = cache.peekError(key);
+  if (cached || failure) {
+    pending.current = null;
+  }
+
+  if (cached) {
+    return cached.data;
+  }
+
+  if (failure) {
+    if (!forgottenFailures.has(failure)) {
+      forgottenFailures.add(failure);
+      scheduler.setTimeout(() => {
+        if (cache.peekError(key) === failure) {
+          cache.remove(key);
+        }
+      }, 0);
+    }
+    throw failure.error;
+  }
+
+  if (pending.current?.key !== key) {
+    const start = () => {
+      // Dropped in favour of a later call. The re-render will start that one.
+      if (latestKey.current !== key) {
+        return Promise.resolve();
+      }
+      const call = cache.fetch(
+        key,
+        (signal) => toPromise(
+          producer(signal, { attempt: 1, reportProgress: () => undefined }),
+          options,
+          signal,
+        ),
+        neverAbortedSignal,
+      ).then(() => undefined, () => undefined);
+      running.current = call;
+      call.then(() => {
+        if (running.current === call) {
+          running.current = null;
+        }
+      });
+      return call;
+    };
+
+    let startingPromise: Promise<void> | null = null;
+    if (!options.disableRequestDedup && running.current) {
+      startingPromise = running.current;
+    }
+    if (options.debounceDelayMs && (mounted.current || options.debounceOnInitialCall)) {
+      startingPromise = (startingPromise || Promise.resolve())
+        .then(() => waitPromise(options.debounceDelayMs, undefined, scheduler));
+    }
+
+    pending.current = {
+      key,
+      promise: startingPromise ? startingPromise.then(start) : start(),
+    };
+  }
+
+  // Suspense expect the promise itself to be thrown.
+  // eslint-disable-next-line @typescript-eslint/no-throw-literal
+  throw pending.current.promise;
+}
+
+/**
+ * Merge the meta of several states. The previous data is only available when every state has one,
+ * combined through the combiner, and is as old as the oldest of them.
+ */
+function combineMeta<U>(
+  combiner: (...values: any[]) => U,
+  inputs: AsyncEffectState<any, any, any>[],
+): AsyncStateMeta<U> {
+  if (!inputs.every(hasPreviousData)) {
+    return { isRefetching: false, updatedAt: null };
+  }
+
+  const metas = inputs.map(getMeta);
+
+  let updatedAt: number | null = null;
+  metas.forEach((meta) => {
+    if (meta.updatedAt !== null && (updatedAt === null || meta.updatedAt < updatedAt)) {
+      updatedAt = meta.updatedAt;
+    }
+  });
+
+  return {
+    previousData: combiner(...metas.map((meta) => meta.previousData)),
+    isRefetching: metas.some((meta) => meta.isRefetching),
+    updatedAt,
+  };
+}
+
+/**
+ * Keep the `retry` of the input meta in the mapped meta, so that a mapped error can be retried.
+ */
+function keepRetry<U, P>(
+  mapped: AsyncStateMeta<U, P>,
+  input: AsyncStateMeta<any, any>,
+): AsyncStateMeta<U, P> {
+  return input.retry ? { ...mapped, retry: input.retry } : mapped;
+}
+
+/**
+ * Map the input state if resolved through a mapper. The mapper should itself returns an
+ * `AsyncEffectState<U>`. Note that the mapper runs conditionally, meaning it can't have React's
+ * `useState` or any other use* calls including `useAsyncEffectState` which uses `useState` and
+ * `useEffect` internally. It can however, return another `AsyncEffectState<U>` from it's closure.
+ * If the input has previous data, it is also mapped, and the state meta are merged. A streaming
+ * input is mapped too, and stays streaming if the mapper returns a resolved state.
+ */
+export function flatMap<T, U, E = Error, F = E>(
+  mapper: (input: T) => AsyncEffectState<U, F, any>,
+  input: AsyncEffectState<T, E, any>,
+): AsyncEffectState<U, E | F> {
+  const [state, result, err, meta] = input;
+  if (state !== AsyncState.RESOLVED && state !== AsyncState.STREAMING) {
+    if (!meta) {
+      // Without meta, there is no data of type T in it.
+      return input as AsyncEffectState<any, E>;
+    }
+    if (!hasPreviousData(input)) {
+      return withMeta(input, keepRetry({ isRefetching: false, updatedAt: null }, meta));
+    }
+    const previous = mapper(meta.previousData);
+    const previousMeta = combineMeta((_, output: U) => output, [input, previous]);
+    return withMeta(input, keepRetry(previousMeta, meta));
+  }
+
+  let output = mapper(result);
+  if (state === AsyncState.STREAMING && output[0] === AsyncState.RESOLVED) {
+    output = [AsyncState.STREAMING, output[1], null, output[3]];
+  }
+  if (!meta) {
+    return output;
+  }
+  if (state === AsyncState.STREAMING) {
+    // The streamed value is not the previous data, which has to be mapped separately.
+    const previous = hasPreviousData(input) ? mapper(meta.previousData) : output;
+    const previousMeta = combineMeta((_, previousOutput: U) => previousOutput, [input, previous]);
+    return withMeta(output, previousMeta);
+  }
+  return withMeta(output, combineMeta((_, outputData: U) => outputData, [input, output]));
+}
+
+/**
+ * Simple synchronous mapper for the `AsyncEffectState` which only map the result when the state is
+ * resolved or streaming. Useful for transforming the data without using the async function passed
+ * in the useAsyncEffectState which will probably require another http call. If the input has
+ * previous data, it is also mapped.
+ */
+export function map<T, U, E = Error, P = number>(
+  mapper: (input: T) => U,
+  input: AsyncEffectState<T, E, P>,
+): AsyncEffectState<U, E, P> {
+  const [state, result, err, meta] = input;
+  const hasData = state === AsyncState.RESOLVED || state === AsyncState.STREAMING;
+  const mapped = hasData ? mapper(result) : null;
+
+  if (!meta) {
+    if (!hasData) {
+      // Without meta, there is no data of type T in it.
+      return input as AsyncEffectState<any, E, P>;
+    }
+    return [state, mapped, null] as AsyncEffectState<U, E, P>;
+  }
+
+  let mappedMeta: AsyncStateMeta<U, P>;
+  if (state === AsyncState.RESOLVED) {
+    mappedMeta = { ...meta, previousData: mapped };
+  } else if (hasPreviousData(input)) {
+    mappedMeta = { ...meta, previousData: mapper(meta.previousData) };
+  } else {
+    mappedMeta = keepRetry({ isRefetching: meta.isRefetching, updatedAt: meta.updatedAt }, meta);
+  }
+  return [state, mapped, err, mappedMeta] as AsyncEffectState<U, E, P>;
+}
+
+/**
+ * Order in which the states of the inputs are picked by the combinators. Any state missing from a
+ * custom precedence comes after it, in this default order.
+ */
+const DEFAULT_PRECEDENCE = [
+  AsyncState.ERROR,
+  AsyncState.PENDING,
+  AsyncState.LOADING,
+  AsyncState.STREAMING,
+];
+
+export interface CombineOptions {
+  /**
+   * Order in which a non resolved input is picked as the combined state. Defaults to
+   * `[ERROR, PENDING, LOADING, STREAMING]`, meaning an error wins over everything else. Use for
+   * example `[LOADING, ERROR]` to keep showing a loading state while another input has failed.
+   */
+  precedence?: AsyncState[];
+}
+
+/**
+ * The data types of a tuple or record of `AsyncEffectState`.
+ */
+export type AsyncStateValues<S> = {
+  [K in keyof S]: S[K] extends AsyncEffectState<infer T, any, any> ? T : never
+};
+
+/**
+ * The error type of a union of `AsyncEffectState`.
+ */
+export type AsyncStateError<S> = S extends [AsyncState.ERROR, null, infer E, any?] ? E : never;
+
+function getPrecedence(options?: CombineOptions): AsyncState[] {
+  const precedence = options?.precedence || [];
+  return [
+    ...precedence,
+    ...DEFAULT_PRECEDENCE.filter((state) => precedence.indexOf(state) === -1),
+  ];
+}
+
+/**
+ * Returns the first input in the first state of the precedence which any input is in, or null if
+ * none is.
+ */
+function selectByPrecedence(
+  inputs: AsyncEffectState<any, any, any>[],
+  precedence: AsyncState[],
+): AsyncEffectState<any, any, any> | null {
+  for (let i = 0; i < precedence.length; i += 1) {
+    const selected = inputs.find(([state]) => state === precedence[i]);
+    if (selected) {
+      return selected;
+    }
+  }
+  return null;
+}
+
+/**
+ * Synchronously combine any number of `AsyncEffectState` into one. The combiner is only called
+ * once every input is resolved or streaming, with the data of each input. Otherwise, the input
+ * picked by the precedence is returned. If any input has meta, the previous data of every input
+ * is also combined. If any input is streaming while the others are resolved, the result is
+ * streaming.
+ */
+export function combineAll<S extends AsyncEffectState<any, any, any>[], U>(
+  inputs: [...S],
+  combiner: (...values: AsyncStateValues<S>) => U,
+  options?: CombineOptions,
+): AsyncEffectState<U, AsyncStateError<S[number]>> {
+  const selected = selectByPrecedence(inputs, getPrecedence(options));
+  const hasMeta = inputs.some((input) => !!input[3]);
+  const combineValues = combiner as (...values: any[]) => U;
+
+  if (selected !== null && selected[0] !== AsyncState.STREAMING) {
+    if (!hasMeta) {
+      return selected;
+    }
+    return withMeta(selected, combineMeta(combineValues, inputs));
+  }
+
+  if (selected !== null) {
+    const streamed = combineValues(...inputs.map((input) => input[1]));
+    if (!hasMeta) {
+      return [AsyncState.STREAMING, streamed, null];
+    }
+    return [AsyncState.STREAMING, streamed, null, combineMeta(combineValues, inputs)];
+  }
+
+  if (!hasMeta) {
+    return [AsyncState.RESOLVED, combineValues(...inputs.map((input) => input[1])), null];
+  }
+  const meta = combineMeta(combineValues, inputs);
+  return [AsyncState.RESOLVED, meta.previousData, null, meta];
+}
+
+/**
+ * Synchronously combine two `AsyncEffectState` into one. If either input has meta, the previous
+ * data of both inputs is also combined. If either input is streaming while the other is resolved
+ * or streaming, the result is streaming.
+ */
+export function combine<T1, T2, U, E1 = Error, E2 = E1>(
+  combiner: (input1: T1, input2: T2) => U,
+  input1: AsyncEffectState<T1, E1, any>,
+  input2: AsyncEffectState<T2, E2, any>,
+  options?: CombineOptions,
+): AsyncEffectState<U, E1 | E2> {
+  return combineAll([input1, input2], combiner, options);
+}
+
+/**
+ * Combine a record of `AsyncEffectState` into a state of the record of their data, following the
+ * same rules as `combineAll`.
+ */
+export function combineRecord<R extends Record<string, AsyncEffectState<any, any, any>>>(
+  inputs: R,
+  options?: CombineOptions,
+): AsyncEffectState<AsyncStateValues<R>, AsyncStateError<R[keyof R]>> {
+  const keys = Object.keys(inputs);
+  return combineAll(keys.map((key) => inputs[key]), (...values) => {
+    const record: Record<string, any> = {};
+    keys.forEach((key, i) => {
+      record[key] = values[i];
+    });
+    return record as AsyncStateValues<R>;
+  }, options);
+}
+
+/**
+ * Wait for every input to either resolve or fail. The result resolves to the inputs themselves, so
+ * that each of them can be checked separately. Until then, the input picked by the precedence is
+ * returned, ignoring errors. If an input is streaming while the others are settled, the result is
+ * streaming.
+ */
+export function allSettled<S extends AsyncEffectState<any, any, any>[]>(
+  inputs: [...S],
+  options?: CombineOptions,
+): AsyncEffectState<S, never> {
+  const precedence = getPrecedence(options).filter((state) => state !== AsyncState.ERROR);
+  const selected = selectByPrecedence(inputs, precedence);
+
+  if (selected !== null && selected[0] !== AsyncState.STREAMING) {
+    // Errors are never selected, so this is either pending or loading.
+    return selected as AsyncEffectState<any, never>;
+  }
+  if (selected !== null) {
+    return [AsyncState.STREAMING, inputs as S, null];
+  }
+  return [AsyncState.RESOLVED, inputs as S, null];
+}
+
+/**
+ * Returns the first resolved input, or else the first streaming input. When every input failed,
+ * the first error is returned. Otherwise, the input picked by the precedence is returned, ignoring
+ * errors. Useful to show whichever of several sources answers first.
+ */
+export function firstResolved<T, E = Error, P = number>(
+  inputs: AsyncEffectState<T, E, P>[],
+  options?: CombineOptions,
+): AsyncEffectState<T, E, P> {
+  const resolved = inputs.find(([state]) => state === AsyncState.RESOLVED)
+    || inputs.find(([state]) => state === AsyncState.STREAMING);
+  if (resolved) {
+    return resolved;
+  }
+  if (inputs.length > 0 && inputs.every(([state]) => state === AsyncState.ERROR)) {
+    return inputs[0];
   }
 
-  return [AsyncState.RESOLVED, combiner(result1, result2), null];
+  const precedence = getPrecedence(options).filter((state) => state !== AsyncState.ERROR);
+  return selectByPrecedence(inputs, precedence) || [AsyncState.PENDING, null, null];
 }
@@ -0,0 +1,210 @@
+import { CachedData } from './cache';
+
+/**
+ * Where the `persist` option keeps the last resolved data. Either synchronous, like
+ * `localStorage`, in which case the persisted data is rendered right away, or asynchronous, like
+ * IndexedDB, in which case it is rendered once read, unless a call resolved first.
+ */
+export interface PersistStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Turns the data into a string and back, for data which is not plain JSON, such as dates.
+ */
+export interface PersistSerializer<T> {
+  serialize(data: T): string;
+  deserialize(serialized: string): T;
+}
+
+export interface PersistOptions {
+  /**
+   * Key of the data in the storage.
+   */
+  key: string;
+
+  /**
+   * Defaults to `localStorage`, or to an in-memory storage where it is not available.
+   */
+  storage?: PersistStorage;
+
+  /**
+   * Persisted data older than this amount of milliseconds is discarded. By default, it never
+   * expires.
+   */
+  ttlMs?: number;
+
+  /**
+   * Version of the shape of the data. Persisted data of another version is discarded. Defaults to
+   * 0.
+   */
+  version?: number;
+
+  /**
+   * Defaults to `JSON.stringify` and `JSON.parse`.
+   */
+  serializer?: PersistSerializer<any>;
+}
+
+interface PersistedEntry {
+  version: number;
+  updatedAt: number;
+  data: string;
+}
+
+const jsonSerializer: PersistSerializer<any> = {
+  serialize: (data) => JSON.stringify(data),
+  deserialize: (serialized) => JSON.parse(serialized),
+};
+
+/**
+ * A storage which only lives as long as the page, for example for tests.
+ */
+export function createMemoryStorage(): PersistStorage {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => (items.has(key) ? items.get(key) : null),
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * A storage keeping each key in an IndexedDB object store, for data too large for `localStorage`.
+ * The database is opened on first use.
+ */
+export function createIndexedDBStorage(
+  databaseName = 'react-async-effect-state',
+  storeName = 'persist',
+): PersistStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const run = <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>,
+  ): Promise<R> => openDatabase().then((opened) => new Promise<R>((resolve, reject) => {
+      const request = operation(opened.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  return {
+    getItem: (key) => run('readonly', (store) => store.get(key))
+      .then((value) => (typeof value === 'string' ? value : null)),
+    setItem: (key, value) => run('readwrite', (store) => store.put(value, key))
+      .then(() => undefined),
+    removeItem: (key) => run('readwrite', (store) => store.delete(key))
+      .then(() => undefined),
+  };
+}
+
+const memoryStorage = createMemoryStorage();
+
+function getStorage(options: PersistOptions): PersistStorage {
+  if (options.storage) {
+    return options.storage;
+  }
+  try {
+    if (typeof localStorage !== 'undefined') {
+      return localStorage;
+    }
+  } catch (error) {
+    // Accessing `localStorage` throws when it is disabled.
+  }
+  return memoryStorage;
+}
+
+function parseEntry(
+  options: PersistOptions,
+  stored: string | null,
+  now: number,
+): CachedData<unknown> | null {
+  if (stored === null) {
+    return null;
+  }
+  const entry: PersistedEntry = JSON.parse(stored);
+  if (entry.version !== (options.version || 0)) {
+    return null;
+  }
+  if (options.ttlMs !== undefined && now - entry.updatedAt > options.ttlMs) {
+    return null;
+  }
+  const serializer = options.serializer || jsonSerializer;
+  return { data: serializer.deserialize(entry.data), updatedAt: entry.updatedAt };
+}
+
+/**
+ * Read the persisted data and pass it to `onRestored`, synchronously if the storage is. Data which
+ * is expired, of another version or unreadable is removed instead.
+ */
+export function restorePersisted(
+  options: PersistOptions,
+  now: number,
+  onRestored: (restored: CachedData<unknown>) => void,
+) {
+  const storage = getStorage(options);
+  const restore = (stored: string | null) => {
+    let restored: CachedData<unknown> | null = null;
+    try {
+      restored = parseEntry(options, stored, now);
+    } catch (error) {
+      // Unreadable, so discarded below.
+    }
+    if (restored) {
+      onRestored(restored);
+    } else if (stored !== null) {
+      Promise.resolve()
+        .then(() => storage.removeItem(options.key))
+        .catch(() => undefined);
+    }
+  };
+
+  let stored: string | null | Promise<string | null>;
+  try {
+    stored = storage.getItem(options.key);
+  } catch (error) {
+    return;
+  }
+  if (stored !== null && typeof stored === 'object' && typeof stored.then === 'function') {
+    stored.then(restore, () => undefined);
+  } else {
+    restore(stored as string | null);
+  }
+}
+
+/**
+ * Store the data. Errors of the storage, such as a full quota, are ignored.
+ */
+export function writePersisted(options: PersistOptions, data: unknown, updatedAt: number) {
+  const storage = getStorage(options);
+  Promise.resolve()
+    .then(() => {
+      const serializer = options.serializer || jsonSerializer;
+      const entry: PersistedEntry = {
+        version: options.version || 0,
+        updatedAt,
+        data: serializer.serialize(data),
+      };
+      return storage.setItem(options.key, JSON.stringify(entry));
+    })
+    .catch(() => undefined);
+}
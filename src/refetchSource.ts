@@ -0,0 +1,89 @@
+import React, { createContext, useContext } from 'react';
+
+/**
+ * Where the hooks learn that the app regained focus or its connection, for
+ * `refetchOnWindowFocus` and `refetchOnReconnect`, and whether it is visible, for
+ * `refetchIntervalMs`. Replaced in tests, or in React Native with one based on `AppState` and
+ * `NetInfo`.
+ */
+export interface AsyncRefetchSource {
+  /**
+   * Call the listener when the app regains focus. Returns a function to remove the listener.
+   */
+  onFocus(listener: () => void): () => void;
+
+  /**
+   * Call the listener when the app is back online. Returns a function to remove the listener.
+   */
+  onReconnect(listener: () => void): () => void;
+
+  /**
+   * Returns false while the app is hidden, in which case polling is paused. Without it, the app is
+   * always considered visible.
+   */
+  isVisible?(): boolean;
+}
+
+function listen(target: EventTarget | undefined, type: string, listener: () => void) {
+  if (!target) {
+    return () => undefined;
+  }
+  target.addEventListener(type, listener);
+  return () => target.removeEventListener(type, listener);
+}
+
+/**
+ * The default source, using the `focus` and `online` events of the window, and the visibility of
+ * the document. Does nothing outside of a browser, where the app is always visible.
+ */
+export const windowRefetchSource: AsyncRefetchSource = {
+  onFocus: (listener) => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        listener();
+      }
+    };
+    const removeFocus = listen(typeof window !== 'undefined' ? window : undefined, 'focus', listener);
+    const removeVisibilityChange = listen(
+      typeof document !== 'undefined' ? document : undefined,
+      'visibilitychange',
+      onVisibilityChange,
+    );
+    return () => {
+      removeFocus();
+      removeVisibilityChange();
+    };
+  },
+  onReconnect: (listener) => listen(
+    typeof window !== 'undefined' ? window : undefined,
+    'online',
+    listener,
+  ),
+  isVisible: () => typeof document === 'undefined' || document.visibilityState !== 'hidden',
+};
+
+export const AsyncRefetchSourceContext = createContext<AsyncRefetchSource>(windowRefetchSource);
+
+/**
+ * Provide a different `AsyncRefetchSource` to the hooks below it. Without a provider, hooks use
+ * the window events.
+ */
+export function AsyncRefetchSourceProvider(props: {
+  refetchSource: AsyncRefetchSource,
+  children?: React.ReactNode,
+}) {
+  const { refetchSource, children } = props;
+
+  return React.createElement(
+    AsyncRefetchSourceContext.Provider,
+    { value: refetchSource },
+    children,
+  );
+}
+
+/**
+ * Returns the `AsyncRefetchSource` used by hooks in this component.
+ */
+export function useAsyncRefetchSource(): AsyncRefetchSource {
+  return useContext(AsyncRefetchSourceContext);
+}
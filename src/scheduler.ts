@@ -0,0 +1,46 @@
+import React, { createContext, useContext } from 'react';
+
+/**
+ * The timers and clock used by the hooks, for debounce, retry delays, polling and the
+ * `updatedAt` of the state meta. Replaced in tests to advance time without real timers.
+ */
+export interface AsyncScheduler {
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  clearTimeout(handle: unknown): void;
+
+  /**
+   * Current timestamp in milliseconds, like `Date.now()`.
+   */
+  now(): number;
+}
+
+/**
+ * The default scheduler, using the global timers and `Date.now()`.
+ */
+export const realScheduler: AsyncScheduler = {
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  now: () => Date.now(),
+};
+
+export const AsyncSchedulerContext = createContext<AsyncScheduler>(realScheduler);
+
+/**
+ * Provide a different `AsyncScheduler` to the hooks below it. Without a provider, hooks use the
+ * real timers.
+ */
+export function AsyncSchedulerProvider(props: {
+  scheduler: AsyncScheduler,
+  children?: React.ReactNode,
+}) {
+  const { scheduler, children } = props;
+
+  return React.createElement(AsyncSchedulerContext.Provider, { value: scheduler }, children);
+}
+
+/**
+ * Returns the `AsyncScheduler` used by hooks in this component.
+ */
+export function useAsyncScheduler(): AsyncScheduler {
+  return useContext(AsyncSchedulerContext);
+}
@@ -0,0 +1,84 @@
+/**
+ * What a producer can return instead of a promise to stream its value.
+ */
+export type AsyncStream<T> = AsyncIterable<T> | ReadableStream<T>;
+
+/**
+ * Returns true if the value is an `AsyncIterable` or a `ReadableStream`.
+ */
+export function isAsyncStream(value: unknown): value is AsyncStream<unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  return typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+    || typeof (value as ReadableStream<unknown>).getReader === 'function';
+}
+
+/**
+ * Read the stream to its end, reducing every chunk into an accumulated value which is passed to
+ * `onValue`. The stream is cancelled as soon as the signal is aborted, even while waiting for a
+ * chunk, or before a chunk if `shouldContinue` returns false. The returned promise resolves to the
+ * last accumulated value.
+ */
+export function readStream<T, A>(
+  stream: AsyncStream<T>,
+  reducer: (accumulated: A | undefined, chunk: T) => A,
+  onValue: (accumulated: A) => void,
+  signal: AbortSignal,
+  shouldContinue: () => boolean = () => true,
+): Promise<A | undefined> {
+  let next: () => Promise<{ done?: boolean, value?: T }>;
+  let cancelStream: () => void;
+
+  if (typeof (stream as ReadableStream<T>).getReader === 'function') {
+    const reader = (stream as ReadableStream<T>).getReader();
+    next = () => reader.read();
+    cancelStream = () => {
+      reader.cancel().catch(() => undefined);
+    };
+  } else {
+    const iterator = (stream as AsyncIterable<T>)[Symbol.asyncIterator]();
+    next = () => iterator.next();
+    cancelStream = () => {
+      iterator.return?.()?.catch(() => undefined);
+    };
+  }
+
+  let cancelled = false;
+  const cancel = () => {
+    if (!cancelled) {
+      cancelled = true;
+      cancelStream();
+    }
+  };
+
+  let accumulated: A | undefined;
+  const readNext = (): Promise<A | undefined> => {
+    if (signal.aborted || !shouldContinue()) {
+      cancel();
+      return Promise.resolve(accumulated);
+    }
+    return next().then((result) => {
+      if (result.done) {
+        return accumulated;
+      }
+      if (signal.aborted || !shouldContinue()) {
+        cancel();
+        return accumulated;
+      }
+      accumulated = reducer(accumulated, result.value);
+      onValue(accumulated);
+      return readNext();
+    });
+  };
+
+  // A pending chunk may never come, so an abort resolves right away.
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      cancel();
+      resolve(accumulated);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    readNext().then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
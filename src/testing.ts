@@ -0,0 +1,221 @@
+import { AsyncCallInfo, AsyncEffectState, AsyncState } from './index';
+import { AsyncScheduler } from './scheduler';
+import { AsyncRefetchSource } from './refetchSource';
+
+/**
+ * A producer whose calls stay pending until `resolve` or `reject` is called.
+ */
+export interface DeferredProducer<T> {
+  (signal: AbortSignal, info?: AsyncCallInfo): Promise<T>;
+
+  /**
+   * Number of times the producer was called.
+   */
+  readonly callCount: number;
+
+  /**
+   * Signal of each call, in order.
+   */
+  readonly signals: AbortSignal[];
+
+  /**
+   * Resolve every call which is still pending and not aborted.
+   */
+  resolve(value: T): void;
+
+  /**
+   * Reject every call which is still pending and not aborted.
+   */
+  reject(error: any): void;
+}
+
+/**
+ * Create a producer which is controlled by the test, so that no real delay is needed to observe
+ * the loading state.
+ */
+export function createDeferredProducer<T>(): DeferredProducer<T> {
+  const signals: AbortSignal[] = [];
+  let pending: Array<{ resolve: (value: T) => void, reject: (error: any) => void }> = [];
+
+  const producer = (signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<T>((resolve, reject) => {
+      const call = { resolve, reject };
+      pending.push(call);
+
+      // Like a real request, an aborted call rejects right away.
+      signal.addEventListener('abort', () => {
+        pending = pending.filter((other) => other !== call);
+        reject(new Error('The call was aborted'));
+      }, { once: true });
+    });
+  };
+
+  const settle = (callback: (call: typeof pending[number]) => void) => {
+    const calls = pending;
+    pending = [];
+    calls.forEach(callback);
+  };
+
+  Object.defineProperty(producer, 'callCount', { get: () => signals.length });
+  return Object.assign(producer, {
+    signals,
+    resolve: (value: T) => settle((call) => call.resolve(value)),
+    reject: (error: any) => settle((call) => call.reject(error)),
+  }) as DeferredProducer<T>;
+}
+
+/**
+ * Keeps every state rendered by a hook, to be checked with `expectStates`.
+ */
+export interface StateRecorder<T> {
+  /**
+   * Record the state and return it, meant to wrap the hook call in the component.
+   */
+  record(state: AsyncEffectState<T>): AsyncEffectState<T>;
+
+  /**
+   * The recorded states. A state which is rendered again is only recorded once.
+   */
+  readonly states: AsyncEffectState<T>[];
+}
+
+export function createStateRecorder<T>(): StateRecorder<T> {
+  const states: AsyncEffectState<T>[] = [];
+  return {
+    record: (state) => {
+      if (states[states.length - 1] !== state) {
+        states.push(state);
+      }
+      return state;
+    },
+    states,
+  };
+}
+
+/**
+ * Throws if the recorded states did not go through the expected `AsyncState` in order. Repeated
+ * consecutive states, such as a loading state which is flagged as refetching, count as one.
+ */
+export function expectStates<T>(recorder: StateRecorder<T>, expected: AsyncState[]) {
+  const actual = recorder.states
+    .map(([state]) => state)
+    .filter((state, i, all) => i === 0 || all[i - 1] !== state);
+
+  if (actual.length !== expected.length || actual.some((state, i) => state !== expected[i])) {
+    const format = (states: AsyncState[]) => states.map((state) => AsyncState[state]).join(', ');
+    throw new Error(`Expected states [${format(expected)}] but got [${format(actual)}]`);
+  }
+}
+
+/**
+ * An `AsyncRefetchSource` whose focus and reconnect events are fired by the test, and whose
+ * visibility is set by it. Provide it with `AsyncRefetchSourceProvider`.
+ */
+export interface TestRefetchSource extends AsyncRefetchSource {
+  /**
+   * Call every focus listener.
+   */
+  focus(): void;
+
+  /**
+   * Call every reconnect listener.
+   */
+  reconnect(): void;
+
+  /**
+   * Make the app hidden or visible again. Visible by default.
+   */
+  setVisible(visible: boolean): void;
+}
+
+export function createTestRefetchSource(): TestRefetchSource {
+  let focusListeners: Array<() => void> = [];
+  let reconnectListeners: Array<() => void> = [];
+  let isVisible = true;
+
+  return {
+    onFocus: (listener) => {
+      focusListeners.push(listener);
+      return () => {
+        focusListeners = focusListeners.filter((other) => other !== listener);
+      };
+    },
+    onReconnect: (listener) => {
+      reconnectListeners.push(listener);
+      return () => {
+        reconnectListeners = reconnectListeners.filter((other) => other !== listener);
+      };
+    },
+    focus: () => focusListeners.slice().forEach((listener) => listener()),
+    reconnect: () => reconnectListeners.slice().forEach((listener) => listener()),
+    isVisible: () => isVisible,
+    setVisible: (visible) => {
+      isVisible = visible;
+    },
+  };
+}
+
+interface ScheduledTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * An `AsyncScheduler` with a fake clock which only moves when advanced by the test. Provide it
+ * with `AsyncSchedulerProvider`. Timers run synchronously while advancing, but the hooks continue
+ * in promise callbacks, so advancing is best wrapped in `act` before waiting for the next render.
+ */
+export class TestScheduler implements AsyncScheduler {
+  private currentTime: number;
+
+  private lastId = 0;
+
+  private timers: ScheduledTimer[] = [];
+
+  constructor(startTime = 0) {
+    this.currentTime = startTime;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): unknown {
+    this.lastId += 1;
+    this.timers.push({ id: this.lastId, at: this.currentTime + (delayMs || 0), callback });
+    return this.lastId;
+  }
+
+  clearTimeout(handle: unknown) {
+    this.timers = this.timers.filter((timer) => timer.id !== handle);
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Number of timers which have not run yet.
+   */
+  pendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move the clock forward, running every timer due until then in order, including the timers
+   * they schedule.
+   */
+  advanceBy(delayMs: number) {
+    const target = this.currentTime + delayMs;
+    for (;;) {
+      const due = this.timers
+        .filter((timer) => timer.at <= target)
+        .sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) {
+        break;
+      }
+      this.timers = this.timers.filter((timer) => timer !== due);
+      this.currentTime = due.at;
+      due.callback();
+    }
+    this.currentTime = target;
+  }
+}
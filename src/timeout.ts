@@ -0,0 +1,52 @@
+import { AsyncScheduler } from './scheduler';
+
+/**
+ * The error of a call which did not complete within `timeoutMs`.
+ */
+export class AsyncTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The call timed out after ${timeoutMs}ms`);
+    this.name = 'AsyncTimeoutError';
+    this.timeoutMs = timeoutMs;
+
+    // Keep `instanceof` working when compiled to ES5.
+    Object.setPrototypeOf(this, AsyncTimeoutError.prototype);
+  }
+}
+
+/**
+ * Reject with an `AsyncTimeoutError` and abort the controller if the promise did not settle
+ * within the timeout. Once the controller is aborted, the promise rejects right away, even if the
+ * producer ignores the signal, so that a superseded call does not hold the queue.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  controller: AbortController,
+  scheduler: AsyncScheduler,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = scheduler.setTimeout(() => {
+      reject(new AsyncTimeoutError(timeoutMs));
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => {
+      scheduler.clearTimeout(timer);
+      reject(new Error('The call was aborted'));
+    };
+    controller.signal.addEventListener('abort', onAbort, { once: true });
+
+    // The controller may outlive the promise, so its listener is removed once settled.
+    promise.then((data) => {
+      scheduler.clearTimeout(timer);
+      controller.signal.removeEventListener('abort', onAbort);
+      resolve(data);
+    }, (error) => {
+      scheduler.clearTimeout(timer);
+      controller.signal.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+  });
+}
@@ -1,12 +1,33 @@
+import { AsyncScheduler, realScheduler } from './scheduler';
+
 /**
  * Simple utility that create a promise that delay its resolve by the specified delay.
  *
  * @param delayMs
+ * @param signal When aborted, the timer is cleared and the promise rejects.
+ * @param scheduler Timers to use, the real ones by default.
  */
-export default function waitPromise(delayMs: number): Promise<void> {
+export default function waitPromise(
+  delayMs: number,
+  signal?: AbortSignal,
+  scheduler: AsyncScheduler = realScheduler,
+): Promise<void> {
   return new Promise((resolve, reject) => {
-    setTimeout(() => {
+    if (signal?.aborted) {
+      reject(new Error('The wait was aborted'));
+      return;
+    }
+
+    let timer: unknown;
+    const onAbort = () => {
+      scheduler.clearTimeout(timer);
+      reject(new Error('The wait was aborted'));
+    };
+    timer = scheduler.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
       resolve();
     }, delayMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
@@ -0,0 +1 @@
+export * from './dist/testing';
\ No newline at end of file
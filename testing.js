@@ -0,0 +1 @@
+module.exports = require('./dist/testing');
\ No newline at end of file
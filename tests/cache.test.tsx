@@ -0,0 +1,271 @@
+import {
+  render, screen, waitFor, act,
+} from '@testing-library/react';
+import React from 'react';
+import {
+  AsyncRefetchSourceProvider,
+  AsyncStateCache,
+  AsyncStateCacheProvider,
+  asyncUIBlock,
+  createCacheKey,
+  Options,
+  useAsyncEffectState,
+} from '../src';
+import { createTestRefetchSource, TestScheduler } from '../src/testing';
+
+describe('AsyncStateCache', () => {
+  function CachedElement(props: {
+    label: string,
+    asyncFunction: () => Promise<string>,
+    options?: Options,
+  }): any {
+    const { label, asyncFunction, options } = props;
+    const request = useAsyncEffectState(asyncFunction, [], options);
+
+    return (
+      <p>
+        {label}: {
+          asyncUIBlock(
+            request,
+            (testString: string) => testString,
+            (error) => error.toString(),
+            () => 'Loading...',
+          )
+        }
+      </p>
+    );
+  }
+
+  class CacheFixture {
+    totalCallCount = 0;
+
+    cache = new AsyncStateCache();
+
+    private blockerResolver: (value: string) => void;
+
+    async asyncFunction(): Promise<string> {
+      this.totalCallCount += 1;
+      return new Promise((resolve) => {
+        this.blockerResolver = resolve;
+      });
+    }
+
+    element(label: string, options?: Options) {
+      return (
+        <CachedElement
+          key={label}
+          label={label}
+          asyncFunction={() => this.asyncFunction()}
+          options={{ cacheKey: 'key', ...options }}
+        />
+      );
+    }
+
+    render(...elements: React.ReactElement[]) {
+      return render(
+        <AsyncStateCacheProvider cache={this.cache}>
+          {elements}
+        </AsyncStateCacheProvider>,
+      );
+    }
+
+    release(value: string) {
+      act(() => this.blockerResolver(value));
+    }
+
+    async expectTotalCallCount(callCount: number) {
+      await waitFor(() => expect(this.totalCallCount).toEqual(callCount));
+    }
+  }
+
+  it('should share one call between hooks with the same key', async () => {
+    const test = new CacheFixture();
+    test.render(test.element('first'), test.element('second'));
+
+    await screen.findByText('first: Loading...');
+    await screen.findByText('second: Loading...');
+    await test.expectTotalCallCount(1);
+
+    test.release('Shared string');
+
+    await screen.findByText('first: Shared string');
+    await screen.findByText('second: Shared string');
+    expect(test.totalCallCount).toEqual(1);
+  });
+
+  it('should render cached data immediately and revalidate in the background', async () => {
+    const test = new CacheFixture();
+    const first = test.render(test.element('first'));
+
+    await test.expectTotalCallCount(1);
+    test.release('Old string');
+    await screen.findByText('first: Old string');
+    first.unmount();
+
+    test.render(test.element('second'));
+    await screen.findByText('second: Old string');
+    await test.expectTotalCallCount(2);
+
+    test.release('New string');
+    await screen.findByText('second: New string');
+  });
+
+  it('should not call the producer while cached data is fresh', async () => {
+    const test = new CacheFixture();
+    const first = test.render(test.element('first', { staleTimeMs: 60000 }));
+
+    await test.expectTotalCallCount(1);
+    test.release('Fresh string');
+    await screen.findByText('first: Fresh string');
+    first.unmount();
+
+    test.render(test.element('second', { staleTimeMs: 60000 }));
+    await screen.findByText('second: Fresh string');
+    await expect(() => test.expectTotalCallCount(2)).rejects.toThrow();
+  });
+
+  it('should abort the shared call only when every caller aborted', () => {
+    const cache = new AsyncStateCache();
+    const signals: AbortSignal[] = [];
+    const producer = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>(() => {});
+    };
+
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+    cache.fetch('key', producer, firstController.signal).catch(() => {});
+    cache.fetch('key', producer, secondController.signal).catch(() => {});
+    expect(signals.length).toEqual(1);
+
+    firstController.abort();
+    expect(signals[0].aborted).toBe(false);
+
+    secondController.abort();
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('should remove unused entries after cacheTimeMs', () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new AsyncStateCache();
+      const unsubscribe = cache.subscribe('key', () => {}, 1000);
+      cache.set('key', 'data');
+
+      jest.advanceTimersByTime(2000);
+      expect(cache.peek('key').data).toEqual('data');
+
+      unsubscribe();
+      jest.advanceTimersByTime(999);
+      expect(cache.peek('key').data).toEqual('data');
+
+      jest.advanceTimersByTime(1);
+      expect(cache.peek('key')).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should use its scheduler for staleness and garbage collection', async () => {
+    const scheduler = new TestScheduler(1000);
+    const cache = new AsyncStateCache(scheduler);
+    const producer = jest.fn(() => Promise.resolve('New data'));
+    const { signal } = new AbortController();
+    const fetchKey = () => cache.fetch('key', producer, signal, { staleTimeMs: 100 });
+
+    const unsubscribe = cache.subscribe('key', () => {}, 500);
+    cache.set('key', 'data');
+    expect(cache.peek('key').updatedAt).toEqual(1000);
+
+    scheduler.advanceBy(99);
+    await expect(fetchKey()).resolves.toEqual('data');
+    expect(producer).not.toHaveBeenCalled();
+
+    scheduler.advanceBy(1);
+    await expect(fetchKey()).resolves.toEqual('New data');
+    expect(producer).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    scheduler.advanceBy(499);
+    expect(cache.peek('key').data).toEqual('New data');
+
+    scheduler.advanceBy(1);
+    expect(cache.peek('key')).toBeUndefined();
+  });
+
+  it('should not garbage collect entries which never had a hook', async () => {
+    const scheduler = new TestScheduler();
+    const cache = new AsyncStateCache(scheduler);
+    await cache.prefetch('key', () => Promise.resolve('Prefetched data'));
+    expect(scheduler.pendingTimerCount()).toEqual(0);
+
+    const unsubscribe = cache.subscribe('key', () => {}, 500);
+    unsubscribe();
+    expect(scheduler.pendingTimerCount()).toEqual(1);
+    scheduler.advanceBy(500);
+    expect(cache.peek('key')).toBeUndefined();
+  });
+
+  it('should hydrate prefetched data without calling the producer', async () => {
+    const serverCache = new AsyncStateCache();
+    await serverCache.prefetch('key', () => Promise.resolve('Server string'));
+
+    const test = new CacheFixture();
+    test.cache.hydrate(JSON.parse(JSON.stringify(serverCache.dehydrate())));
+    test.render(test.element('client'));
+
+    expect(screen.getByText('client: Server string')).toBeTruthy();
+    await expect(() => test.expectTotalCallCount(1)).rejects.toThrow();
+  });
+
+  it('should hydrate errors', async () => {
+    const serverCache = new AsyncStateCache();
+    await serverCache.prefetch('key', () => Promise.reject(new Error('Server error')));
+
+    const test = new CacheFixture();
+    test.cache.hydrate(JSON.parse(JSON.stringify(serverCache.dehydrate())));
+    test.render(test.element('client'));
+
+    expect(screen.getByText('client: Error: Server error')).toBeTruthy();
+    await expect(() => test.expectTotalCallCount(1)).rejects.toThrow();
+  });
+
+  it('should refetch hydrated data on focus', async () => {
+    const test = new CacheFixture();
+    const refetchSource = createTestRefetchSource();
+    test.cache.hydrate({ entries: [{ key: 'key', data: 'Hydrated string', updatedAt: 0 }] });
+    render(
+      <AsyncRefetchSourceProvider refetchSource={refetchSource}>
+        <AsyncStateCacheProvider cache={test.cache}>
+          {test.element('client', { refetchOnWindowFocus: true })}
+        </AsyncStateCacheProvider>
+      </AsyncRefetchSourceProvider>,
+    );
+    expect(screen.getByText('client: Hydrated string')).toBeTruthy();
+
+    act(() => refetchSource.focus());
+    await test.expectTotalCallCount(1);
+    test.release('Refetched string');
+    await screen.findByText('client: Refetched string');
+  });
+
+  it('should call the producer again once the hydrated data is replaced', async () => {
+    const test = new CacheFixture();
+    test.cache.hydrate({ entries: [{ key: 'key', data: 'Hydrated string', updatedAt: 0 }] });
+    expect(test.cache.isHydrated('key')).toBe(true);
+
+    test.cache.set('key', 'New string');
+    expect(test.cache.isHydrated('key')).toBe(false);
+
+    test.render(test.element('client'));
+    await screen.findByText('client: New string');
+    await test.expectTotalCallCount(1);
+  });
+
+  it('should build the same cache key regardless of property order', () => {
+    expect(createCacheKey('user', { id: 1, tab: 'posts' }))
+      .toEqual(createCacheKey('user', { tab: 'posts', id: 1 }));
+    expect(createCacheKey('user', 1)).toEqual('user:[1]');
+    expect(createCacheKey('user')).toEqual('user');
+  });
+});
@@ -3,17 +3,33 @@ import {
   render, waitFor, screen, RenderResult, act,
 } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import React from 'react';
+import React, { Suspense } from 'react';
 import { UserEvent } from '@testing-library/user-event/dist/types/setup';
 import {
+  AsyncBoundary,
   AsyncEffectState,
+  AsyncEventRecorder,
+  AsyncRefetchSourceProvider,
+  AsyncSchedulerProvider,
   AsyncState,
-  asyncUIBlock, combine,
-  flatMap, map,
+  AsyncTimeoutError,
+  AsyncTriggerOutcome,
+  AsyncView,
+  AsyncStateCache,
+  AsyncStateCacheProvider,
+  allSettled, asyncUIBlock, combine, combineAll, combineRecord, createConsoleLogger,
+  createMemoryStorage,
+  firstResolved, flatMap, map,
   Options,
-  useAsyncEffectState, useManualAsyncState,
+  PersistStorage,
+  subscribeAsyncEvents,
+  useAsyncEffectState, useAsyncMutation, useInfiniteAsyncState, useManualAsyncState,
+  useSuspenseAsyncState,
 } from '../src';
 import waitPromise from '../src/waitPromise';
+import {
+  createDeferredProducer, createTestRefetchSource, DeferredProducer, TestScheduler,
+} from '../src/testing';
 
 jest.mock('../src/waitPromise', () => jest.fn());
 const mockedWaitPromise = waitPromise as jest.MockedFunction<any>;
@@ -24,7 +40,7 @@ describe('useAsyncEffectState', () => {
   });
 
   function TestElement(props: {
-    asyncFunction: () => Promise<string>,
+    asyncFunction: (signal: AbortSignal) => Promise<string>,
     nonce?: number,
     options?: Options
   }): any {
@@ -38,8 +54,18 @@ describe('useAsyncEffectState', () => {
           asyncUIBlock(
             request,
             (testString: string) => <p>{testString}</p>,
-            (error) => <p>{error.toString()}</p>,
-            () => <p>Loading...</p>,
+            (error, meta) => (
+              <>
+                <p>{error.toString()}</p>
+                {meta.updatedAt !== null && <p>Stale {meta.previousData}</p>}
+              </>
+            ),
+            (meta) => (
+              <>
+                <p>Loading...</p>
+                {meta.isRefetching && <p>Refetching {meta.previousData}</p>}
+              </>
+            ),
           )
         }
       </>
@@ -49,6 +75,8 @@ describe('useAsyncEffectState', () => {
   class TestFixture {
     totalCallCount = 0;
 
+    signals: AbortSignal[] = [];
+
     options?: Options;
 
     private blocker: Promise<void>;
@@ -67,8 +95,9 @@ describe('useAsyncEffectState', () => {
       });
     }
 
-    async asyncFunction() {
+    async asyncFunction(signal?: AbortSignal) {
       this.totalCallCount += 1;
+      this.signals.push(signal);
 
       await this.blocker;
 
@@ -82,7 +111,7 @@ describe('useAsyncEffectState', () => {
 
     render(nonce: number) {
       this.renderResult = render(<TestElement
-        asyncFunction={() => this.asyncFunction()}
+        asyncFunction={(signal) => this.asyncFunction(signal)}
         nonce={nonce}
         options={this.options}
       />);
@@ -90,12 +119,16 @@ describe('useAsyncEffectState', () => {
 
     rerender(nonce: number) {
       this.renderResult.rerender(<TestElement
-        asyncFunction={() => this.asyncFunction()}
+        asyncFunction={(signal) => this.asyncFunction(signal)}
         nonce={nonce}
         options={this.options}
       />);
     }
 
+    unmount() {
+      this.renderResult.unmount();
+    }
+
     releaseResolver() {
       act(() => this.blockerResolver());
     }
@@ -125,6 +158,54 @@ describe('useAsyncEffectState', () => {
     }
   }
 
+  // Runs the real waitPromise on a TestScheduler, to advance time deterministically.
+  class TimedFixture {
+    scheduler = new TestScheduler();
+
+    refetchSource = createTestRefetchSource();
+
+    producer: DeferredProducer<string> = createDeferredProducer();
+
+    private options: Options;
+
+    private renderResult: RenderResult;
+
+    constructor(options: Options) {
+      this.options = options;
+      mockedWaitPromise.mockImplementation(jest.requireActual('../src/waitPromise').default);
+    }
+
+    private element(nonce: number) {
+      return (
+        <AsyncSchedulerProvider scheduler={this.scheduler}>
+          <AsyncRefetchSourceProvider refetchSource={this.refetchSource}>
+            <TestElement asyncFunction={this.producer} nonce={nonce} options={this.options} />
+          </AsyncRefetchSourceProvider>
+        </AsyncSchedulerProvider>
+      );
+    }
+
+    render(nonce: number) {
+      if (this.renderResult) {
+        this.renderResult.rerender(this.element(nonce));
+      } else {
+        this.renderResult = render(this.element(nonce));
+      }
+    }
+
+    unmount() {
+      this.renderResult.unmount();
+    }
+
+    advanceBy(delayMs: number) {
+      act(() => this.scheduler.advanceBy(delayMs));
+    }
+
+    async expectCallCount(callCount: number) {
+      await waitFor(() => expect(this.producer.callCount).toEqual(callCount));
+    }
+  }
+
   describe('Default config on single render', () => {
     it('should render loading and then render resulting string', async () => {
       const test = new TestFixture();
@@ -165,6 +246,47 @@ describe('useAsyncEffectState', () => {
     });
   });
 
+  describe('abort signal', () => {
+    it('should abort the running call when superseded by a newer call', async () => {
+      const test = new TestFixture();
+
+      test.render(0);
+      await test.expectTotalCallCount(1);
+      expect(test.signals[0].aborted).toBe(false);
+
+      test.rerender(1);
+      await test.expectNonceRendered(1);
+      expect(test.signals[0].aborted).toBe(true);
+
+      test.releaseResolver();
+      await test.expectTotalCallCount(2);
+      expect(test.signals[1].aborted).toBe(false);
+    });
+
+    it('should abort the running call on unmount', async () => {
+      const test = new TestFixture();
+
+      test.render(0);
+      await test.expectTotalCallCount(1);
+
+      test.unmount();
+      expect(test.signals[0].aborted).toBe(true);
+    });
+
+    it('should not abort superseded call when updateStateOnAllCall is set', async () => {
+      const test = new TestFixture({
+        updateStateOnAllCall: true,
+      });
+
+      test.render(0);
+      await test.expectTotalCallCount(1);
+
+      test.rerender(1);
+      await test.expectNonceRendered(1);
+      expect(test.signals[0].aborted).toBe(false);
+    });
+  });
+
   describe('call dedup is disabled', () => {
     it('should call async call as many time as props update', async () => {
       const test = new TestFixture({
@@ -184,6 +306,113 @@ describe('useAsyncEffectState', () => {
     });
   });
 
+  describe('concurrency option', () => {
+    class ConcurrencyFixture {
+      calls: Array<{ signal: AbortSignal, resolve: () => void }> = [];
+
+      private options: Options;
+
+      private renderResult: RenderResult;
+
+      constructor(options: Options) {
+        this.options = options;
+      }
+
+      private element(nonce: number) {
+        return (
+          <TestElement
+            asyncFunction={(signal) => new Promise((resolve) => {
+              this.calls.push({ signal, resolve: () => resolve(`Result ${nonce}`) });
+            })}
+            nonce={nonce}
+            options={{ noLoadingOnReload: true, ...this.options }}
+          />
+        );
+      }
+
+      render(nonce: number) {
+        if (this.renderResult) {
+          this.renderResult.rerender(this.element(nonce));
+        } else {
+          this.renderResult = render(this.element(nonce));
+        }
+      }
+
+      resolve(index: number) {
+        act(() => this.calls[index].resolve());
+      }
+
+      async expectCallCount(callCount: number) {
+        await waitFor(() => expect(this.calls.length).toEqual(callCount));
+      }
+    }
+
+    it('should abort the running call and run the new one immediately with switch', async () => {
+      const test = new ConcurrencyFixture({ concurrency: 'switch' });
+      test.render(0);
+      await test.expectCallCount(1);
+      test.render(1);
+
+      await test.expectCallCount(2);
+      expect(test.calls[0].signal.aborted).toBe(true);
+
+      test.resolve(1);
+      await screen.findByText('Result 1');
+    });
+
+    it('should ignore calls while running with exhaust', async () => {
+      const test = new ConcurrencyFixture({ concurrency: 'exhaust' });
+      test.render(0);
+      await test.expectCallCount(1);
+      test.render(1);
+      test.render(2);
+
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+      expect(test.calls[0].signal.aborted).toBe(false);
+
+      test.resolve(0);
+      await screen.findByText('Result 0');
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+    });
+
+    it('should run every call in order with queue-all', async () => {
+      const test = new ConcurrencyFixture({ concurrency: 'queue-all' });
+      test.render(0);
+      await test.expectCallCount(1);
+      test.render(1);
+      test.render(2);
+
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+
+      test.resolve(0);
+      await screen.findByText('Result 0');
+      await test.expectCallCount(2);
+
+      test.resolve(1);
+      await screen.findByText('Result 1');
+      await test.expectCallCount(3);
+
+      test.resolve(2);
+      await screen.findByText('Result 2');
+    });
+
+    it('should run every call at once and keep the last one with parallel', async () => {
+      const test = new ConcurrencyFixture({ concurrency: 'parallel' });
+      test.render(0);
+      await test.expectCallCount(1);
+      test.render(1);
+
+      await test.expectCallCount(2);
+      expect(test.calls[0].signal.aborted).toBe(false);
+
+      test.resolve(1);
+      await screen.findByText('Result 1');
+
+      test.resolve(0);
+      await expect(() => screen.findByText('Result 0', {}, { timeout: 100 })).rejects.toThrow();
+    });
+  });
+
   describe('noLoadingOnReload option', () => {
     it('should not show loading on second render', async () => {
       const test = new TestFixture({
@@ -210,6 +439,215 @@ describe('useAsyncEffectState', () => {
     });
   });
 
+  describe('streaming producer', () => {
+    class TestStream implements AsyncIterable<string> {
+      returned = false;
+
+      private nextResolver: (result: IteratorResult<string>) => void;
+
+      [Symbol.asyncIterator](): AsyncIterator<string> {
+        return {
+          next: () => new Promise((resolve) => {
+            this.nextResolver = resolve;
+          }),
+          return: () => {
+            this.returned = true;
+            return Promise.resolve({ done: true, value: undefined });
+          },
+        };
+      }
+
+      async push(chunk: string) {
+        await waitFor(() => expect(this.nextResolver).toBeDefined());
+        const resolver = this.nextResolver;
+        this.nextResolver = undefined;
+        act(() => resolver({ done: false, value: chunk }));
+      }
+
+      async end() {
+        await waitFor(() => expect(this.nextResolver).toBeDefined());
+        act(() => this.nextResolver({ done: true, value: undefined }));
+      }
+    }
+
+    function StreamTestElement(props: {
+      streams: TestStream[],
+      nonce: number,
+    }): any {
+      const { streams, nonce } = props;
+      const request = useAsyncEffectState(() => streams[nonce], [nonce], {
+        streamReducer: (accumulated: string | undefined, chunk: string) => (accumulated || '') + chunk,
+      });
+
+      return (
+        <>
+          {
+            asyncUIBlock(
+              request,
+              (text: string) => <p>Resolved {text}</p>,
+              (error) => <p>{error.toString()}</p>,
+              () => <p>Loading...</p>,
+              undefined,
+              (text: string) => <p>Streaming {text}</p>,
+            )
+          }
+        </>
+      );
+    }
+
+    it('should render the accumulated value while streaming', async () => {
+      const stream = new TestStream();
+      render(<StreamTestElement streams={[stream]} nonce={0} />);
+
+      await screen.findByText('Loading...');
+      await stream.push('Hello');
+      await screen.findByText('Streaming Hello');
+      await stream.push(' world');
+      await screen.findByText('Streaming Hello world');
+      await stream.end();
+      await screen.findByText('Resolved Hello world');
+    });
+
+    it('should cancel a superseded stream', async () => {
+      const streams = [new TestStream(), new TestStream()];
+      const { rerender } = render(<StreamTestElement streams={streams} nonce={0} />);
+
+      await streams[0].push('First');
+      await screen.findByText('Streaming First');
+
+      rerender(<StreamTestElement streams={streams} nonce={1} />);
+      await streams[0].push(' ignored');
+      await waitFor(() => expect(streams[0].returned).toBe(true));
+
+      await streams[1].push('Second');
+      await screen.findByText('Streaming Second');
+    });
+
+    it('should cancel a superseded stream while it waits for its next chunk', async () => {
+      const streams = [new TestStream(), new TestStream()];
+      const { rerender } = render(<StreamTestElement streams={streams} nonce={0} />);
+
+      await streams[0].push('First');
+      await screen.findByText('Streaming First');
+
+      rerender(<StreamTestElement streams={streams} nonce={1} />);
+      await waitFor(() => expect(streams[0].returned).toBe(true));
+
+      await streams[1].push('Second');
+      await screen.findByText('Streaming Second');
+    });
+  });
+
+  describe('progress reporting', () => {
+    function ProgressTestElement(props: {
+      asyncFunction: (reportProgress: (progress: number) => void) => Promise<string>,
+      nonce: number,
+    }): any {
+      const { asyncFunction, nonce } = props;
+      const request = useAsyncEffectState(
+        (signal, { reportProgress }) => asyncFunction(reportProgress),
+        [nonce],
+      );
+
+      return (
+        <>
+          {
+            asyncUIBlock(
+              request,
+              (testString: string) => <p>{testString}</p>,
+              (error) => <p>{error.toString()}</p>,
+              (meta) => <p>Progress {meta.progress ?? 'none'}</p>,
+            )
+          }
+        </>
+      );
+    }
+
+    class ProgressTestFixture extends TestFixture {
+      reporters: ((progress: number) => void)[] = [];
+
+      element(nonce: number) {
+        return (
+          <ProgressTestElement
+            asyncFunction={(reportProgress) => {
+              this.reporters.push(reportProgress);
+              return this.asyncFunction();
+            }}
+            nonce={nonce}
+          />
+        );
+      }
+
+      render(nonce: number) {
+        this.renderResult = render(this.element(nonce));
+      }
+
+      rerender(nonce: number) {
+        this.renderResult.rerender(this.element(nonce));
+      }
+
+      async report(index: number, progress: number) {
+        await waitFor(() => expect(this.reporters.length).toBeGreaterThan(index));
+        act(() => this.reporters[index](progress));
+      }
+    }
+
+    it('should render the reported progress while loading', async () => {
+      const test = new ProgressTestFixture();
+      test.render(0);
+
+      await test.expectTextFound('Progress none');
+      await test.report(0, 50);
+      await test.expectTextFound('Progress 50');
+
+      test.releaseResolver();
+      await test.expectSampleStringRendered();
+      await test.report(0, 100);
+      await expect(() => test.expectTextFound('Progress 100')).rejects.toThrow();
+    });
+
+    it('should ignore progress from a superseded call', async () => {
+      const test = new ProgressTestFixture();
+      test.render(0);
+      await test.report(0, 50);
+      await test.expectTextFound('Progress 50');
+
+      test.rerender(1);
+      await test.report(0, 70);
+      await expect(() => test.expectTextFound('Progress 70')).rejects.toThrow();
+    });
+  });
+
+  describe('state meta', () => {
+    it('should keep previous data while loading', async () => {
+      const test = new TestFixture();
+
+      test.render(0);
+      await test.expectLoadingRendered();
+      await expect(() => test.expectTextFound('Refetching Sample string')).rejects.toThrow();
+      test.releaseResolver();
+      await test.expectSampleStringRendered();
+
+      test.rerender(1);
+      await test.expectLoadingRendered();
+      await test.expectTextFound('Refetching Sample string');
+    });
+
+    it('should keep previous data on error', async () => {
+      const test = new TestFixture();
+
+      test.render(0);
+      test.releaseResolver();
+      await test.expectSampleStringRendered();
+
+      test.rerender(1);
+      await test.expectTotalCallCount(2);
+      test.releaseRejector(new Error('Error'));
+      await test.expectTextFound('Error: Error');
+      await test.expectTextFound('Stale Sample string');
+    });
+  });
+
   describe('debounced option', () => {
     it('debounce on second render', async () => {
       const test = new TestFixture({
@@ -280,92 +718,1202 @@ describe('useAsyncEffectState', () => {
     });
   });
 
-  describe('useManualAsyncState', () => {
-    function ManualTestElement(props: {
-      asyncFunction: () => Promise<string>,
-      options?: Options
-    }): any {
-      const { asyncFunction, options } = props;
-      const [request, trigger, reset] = useManualAsyncState(asyncFunction, options);
+  describe('throttleMs and debounceMaxWaitMs options', () => {
+    afterEach(() => {
+      mockedWaitPromise.mockReset();
+    });
 
-      return (
-        <>
-          <button type="button" onClick={() => trigger()}>Trigger</button>
-          <button type="button" onClick={() => reset()}>Reset</button>
-          {
-              asyncUIBlock(
-                request,
-                (testString: string) => <p>{testString}</p>,
-                (error) => <p>{error.toString()}</p>,
-                () => <p>Loading...</p>,
-                () => <p>Pending...</p>,
-              )
-            }
-        </>
-      );
-    }
+    it('should run the last call at the end of the throttle interval', async () => {
+      const test = new TimedFixture({ throttleMs: 1000 });
+      test.render(0);
+      await test.expectCallCount(1);
 
-    class ManualTestFixture extends TestFixture {
-      private user: UserEvent;
+      test.render(1);
+      test.render(2);
+      test.advanceBy(999);
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+      expect(test.producer.signals[0].aborted).toBe(false);
 
-      constructor() {
-        super();
-        this.user = userEvent.setup();
-      }
+      test.advanceBy(1);
+      await test.expectCallCount(2);
+      expect(test.producer.signals[0].aborted).toBe(true);
 
-      async asyncFunction() {
-        this.totalCallCount += 1;
-        return 'Sample string';
-      }
+      act(() => test.producer.resolve('Throttled string'));
+      await screen.findByText('Throttled string');
+      await expect(() => test.expectCallCount(3)).rejects.toThrow();
+    });
 
-      render() {
-        this.renderResult = render(<ManualTestElement
-          asyncFunction={() => this.asyncFunction()}
-        />);
-      }
+    it('should drop calls during the throttle interval without trailing edge', async () => {
+      const test = new TimedFixture({ throttleMs: 1000, throttleTrailing: false });
+      test.render(0);
+      await test.expectCallCount(1);
 
-      async clickTrigger() {
-        await this.user.click(await screen.findByText('Trigger'));
-      }
+      test.render(1);
+      test.advanceBy(1000);
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
 
-      async clickReset() {
-        await this.user.click(await screen.findByText('Reset'));
-      }
+      test.render(2);
+      await test.expectCallCount(2);
+    });
 
-      async expectPendingRendered() {
-        await waitFor(() => screen.findByText('Pending...'));
-      }
-    }
+    it('should delay the first call without leading edge', async () => {
+      const test = new TimedFixture({ throttleMs: 1000, throttleLeading: false });
+      test.render(0);
+      await expect(() => test.expectCallCount(1)).rejects.toThrow();
 
-    it('should render pending not render resulting string until triggered', async () => {
-      const test = new ManualTestFixture();
-      test.render();
+      test.advanceBy(1000);
+      await test.expectCallCount(1);
+    });
 
-      await test.expectPendingRendered();
-      await expect(() => test.expectSampleStringRendered()).rejects.toThrow();
-      await test.expectTotalCallCount(0);
+    it('should cancel the throttled call on unmount', async () => {
+      const test = new TimedFixture({ throttleMs: 1000 });
+      test.render(0);
+      await test.expectCallCount(1);
 
-      await test.clickTrigger();
-      await test.expectLoadingRendered();
-      await test.releaseResolver();
+      test.render(1);
+      expect(test.scheduler.pendingTimerCount()).toEqual(1);
 
-      await test.expectTotalCallCount(1);
-      await test.expectSampleStringRendered();
+      test.unmount();
+      expect(test.scheduler.pendingTimerCount()).toEqual(0);
+    });
 
-      await test.clickReset();
-      await test.expectPendingRendered();
+    it('should not debounce longer than debounceMaxWaitMs', async () => {
+      const test = new TimedFixture({ debounceDelayMs: 300, debounceMaxWaitMs: 500 });
+      test.render(0);
+      await test.expectCallCount(1);
+
+      test.render(1);
+      test.advanceBy(200);
+      test.render(2);
+      test.advanceBy(200);
+      test.render(3);
+      test.advanceBy(99);
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+
+      test.advanceBy(1);
+      await test.expectCallCount(2);
     });
   });
 
-  describe('flatMap', () => {
-    const loadingState: AsyncEffectState<string> = [AsyncState.LOADING, null, null];
-    const errorState: AsyncEffectState<string> = [AsyncState.ERROR, null, null];
-    const resolvedState: AsyncEffectState<string> = [AsyncState.RESOLVED, 'input', null];
-    const transformedString = 'input-transformed';
+  describe('timeoutMs option', () => {
+    afterEach(() => {
+      mockedWaitPromise.mockReset();
+    });
 
-    const transformer: (input: string) => AsyncEffectState<string> = (resolvedInput) => [AsyncState.RESOLVED, `${resolvedInput}-transformed`, null];
+    it('should reject a hung call with an AsyncTimeoutError', async () => {
+      const test = new TimedFixture({ timeoutMs: 1000 });
+      test.render(0);
+      await test.expectCallCount(1);
 
-    it('returns original async state when in loading state', () => {
+      test.advanceBy(999);
+      await expect(() => screen.findByText('AsyncTimeoutError: The call timed out after 1000ms', {}, {
+        timeout: 100,
+      })).rejects.toThrow();
+
+      test.advanceBy(1);
+      await screen.findByText('AsyncTimeoutError: The call timed out after 1000ms');
+      expect(test.producer.signals[0].aborted).toBe(true);
+    });
+
+    it('should run the queued call once the running call timed out', async () => {
+      const test = new TimedFixture({ timeoutMs: 1000, updateStateOnAllCall: true });
+      test.render(0);
+      await test.expectCallCount(1);
+
+      test.render(1);
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+
+      test.advanceBy(1000);
+      await test.expectCallCount(2);
+    });
+
+    it('should pass timeouts to onTimeout in asyncUIBlock', () => {
+      const renderError = (error: Error) => asyncUIBlock(
+        [AsyncState.ERROR, null, error],
+        () => 'resolved',
+        () => 'error',
+        undefined,
+        undefined,
+        undefined,
+        (timeoutError) => `timeout ${timeoutError.timeoutMs}`,
+      );
+
+      expect(renderError(new AsyncTimeoutError(1000))).toEqual('timeout 1000');
+      expect(renderError(new Error('Error'))).toEqual('error');
+    });
+  });
+
+  describe('mapError option', () => {
+    interface ApiError {
+      status: number;
+      message: string;
+    }
+
+    function ApiElement(props: { asyncFunction: () => Promise<string> }): any {
+      const { asyncFunction } = props;
+      const request = useAsyncEffectState<string, ApiError>(asyncFunction, [], {
+        mapError: (error) => (typeof error === 'string'
+          ? { status: 500, message: error }
+          : error as ApiError),
+      });
+
+      return (
+        <p>
+          {
+            asyncUIBlock(
+              request,
+              (testString) => testString,
+              (error) => `${error.status}: ${error.message}`,
+              () => 'Loading...',
+            )
+          }
+        </p>
+      );
+    }
+
+    it('should set the converted error in the state', async () => {
+      render(<ApiElement asyncFunction={() => Promise.reject(new Error('Not an ApiError'))} />);
+      await screen.findByText('undefined: Not an ApiError');
+    });
+
+    it('should convert unknown rejections', async () => {
+      // eslint-disable-next-line prefer-promise-reject-errors
+      render(<ApiElement asyncFunction={() => Promise.reject('Server error')} />);
+      await screen.findByText('500: Server error');
+    });
+  });
+
+  describe('retry option', () => {
+    beforeEach(() => {
+      mockedWaitPromise.mockImplementation(() => Promise.resolve());
+    });
+
+    it('should retry with exponential backoff before rendering the error', async () => {
+      const retriedAttempts = [];
+      const test = new TestFixture({
+        retry: 2,
+        disableRetryJitter: true,
+        onRetry: (error, attempt) => retriedAttempts.push(attempt),
+      });
+
+      test.render(0);
+      await test.expectTotalCallCount(1);
+
+      test.releaseRejector(new Error('Flaky'));
+      await test.expectTextFound('Error: Flaky');
+
+      expect(test.totalCallCount).toEqual(3);
+      expect(retriedAttempts).toEqual([1, 2]);
+      expect(mockedWaitPromise.mock.calls.map((call) => call[0])).toEqual([1000, 2000]);
+    });
+
+    it('should render the attempt while retrying', async () => {
+      function AttemptElement(props: { producer: DeferredProducer<string> }): any {
+        const { producer } = props;
+        const request = useAsyncEffectState(producer, [], { retry: 2 });
+
+        return (
+          <p>
+            {asyncUIBlock(
+              request,
+              (testString: string) => testString,
+              (error) => error.toString(),
+              (meta) => (meta.attempt ? `Retrying (${meta.attempt}/3)` : 'Loading...'),
+            )}
+          </p>
+        );
+      }
+
+      const producer = createDeferredProducer<string>();
+      render(<AttemptElement producer={producer} />);
+      await screen.findByText('Loading...');
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+
+      act(() => producer.reject(new Error('Flaky')));
+      await screen.findByText('Retrying (2/3)');
+      await waitFor(() => expect(producer.callCount).toEqual(2));
+
+      act(() => producer.reject(new Error('Flaky')));
+      await screen.findByText('Retrying (3/3)');
+      await waitFor(() => expect(producer.callCount).toEqual(3));
+
+      act(() => producer.resolve('Sample string'));
+      await screen.findByText('Sample string');
+    });
+
+    it('should not retry when the predicate returns false', async () => {
+      const test = new TestFixture({
+        retry: (error: Error) => error.message !== 'Fatal',
+      });
+
+      test.render(0);
+      test.releaseRejector(new Error('Fatal'));
+      await test.expectTextFound('Error: Fatal');
+
+      expect(test.totalCallCount).toEqual(1);
+      expect(mockedWaitPromise).not.toHaveBeenCalled();
+    });
+
+    it('should cancel pending retry when a newer call is triggered', async () => {
+      mockedWaitPromise.mockImplementation((delayMs, signal: AbortSignal) => new Promise(
+        (resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('Aborted')));
+        },
+      ));
+      const test = new TestFixture({
+        retry: 1,
+      });
+
+      test.render(0);
+      test.releaseRejector(new Error('Flaky'));
+      await waitFor(() => expect(mockedWaitPromise).toHaveBeenCalledTimes(1));
+
+      test.rerender(1);
+      await test.expectTotalCallCount(2);
+      await waitFor(() => expect(mockedWaitPromise).toHaveBeenCalledTimes(2));
+      expect(test.totalCallCount).toEqual(2);
+    });
+  });
+
+  describe('refetchOnWindowFocus and refetchOnReconnect options', () => {
+    afterEach(() => {
+      mockedWaitPromise.mockReset();
+    });
+
+    it('should refetch stale data in the background on focus', async () => {
+      const test = new TimedFixture({ refetchOnWindowFocus: true, refetchStaleTimeMs: 1000 });
+      test.render(0);
+      await test.expectCallCount(1);
+      act(() => test.producer.resolve('First string'));
+      await screen.findByText('First string');
+
+      act(() => test.refetchSource.focus());
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+
+      test.advanceBy(1000);
+      act(() => test.refetchSource.focus());
+      await test.expectCallCount(2);
+      expect(screen.getByText('First string')).toBeTruthy();
+
+      act(() => test.producer.resolve('Second string'));
+      await screen.findByText('Second string');
+    });
+
+    it('should refetch on reconnect only when enabled', async () => {
+      const test = new TimedFixture({ refetchOnReconnect: true });
+      test.render(0);
+      await test.expectCallCount(1);
+      act(() => test.producer.resolve('First string'));
+      await screen.findByText('First string');
+
+      act(() => test.refetchSource.focus());
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+
+      act(() => test.refetchSource.reconnect());
+      await test.expectCallCount(2);
+
+      test.unmount();
+      act(() => test.refetchSource.reconnect());
+      await expect(() => test.expectCallCount(3)).rejects.toThrow();
+    });
+  });
+
+  describe('loadingDelayMs and minLoadingMs options', () => {
+    afterEach(() => {
+      mockedWaitPromise.mockReset();
+    });
+
+    it('should only render loading for calls slower than loadingDelayMs', async () => {
+      const test = new TimedFixture({ loadingDelayMs: 200 });
+      test.render(0);
+      await test.expectCallCount(1);
+      act(() => test.producer.resolve('First string'));
+      await screen.findByText('First string');
+      expect(screen.queryByText('Loading...')).toBeNull();
+
+      test.render(1);
+      await test.expectCallCount(2);
+      test.advanceBy(199);
+      expect(screen.getByText('First string')).toBeTruthy();
+
+      test.advanceBy(1);
+      await screen.findByText('Loading...');
+      act(() => test.producer.resolve('Second string'));
+      await screen.findByText('Second string');
+    });
+
+    it('should keep rendering loading for minLoadingMs', async () => {
+      const test = new TimedFixture({ minLoadingMs: 500 });
+      test.render(0);
+      await test.expectCallCount(1);
+      act(() => test.producer.resolve('First string'));
+      await expect(() => screen.findByText('First string', {}, { timeout: 100 })).rejects.toThrow();
+      expect(screen.getByText('Loading...')).toBeTruthy();
+
+      test.advanceBy(499);
+      await expect(() => screen.findByText('First string', {}, { timeout: 100 })).rejects.toThrow();
+
+      test.advanceBy(1);
+      await screen.findByText('First string');
+    });
+  });
+
+  describe('enabled option', () => {
+    function renderEnabled(producer: DeferredProducer<string>, options?: Options) {
+      const element = (enabled: boolean, nonce = 0) => (
+        <TestElement asyncFunction={producer} nonce={nonce} options={{ ...options, enabled }} />
+      );
+      const renderResult = render(element(false));
+      return (enabled: boolean, nonce?: number) => renderResult.rerender(element(enabled, nonce));
+    }
+
+    it('should stay pending without calling the producer until enabled', async () => {
+      const producer = createDeferredProducer<string>();
+      const rerender = renderEnabled(producer);
+
+      await expect(() => screen.findByText('Loading...', {}, { timeout: 100 })).rejects.toThrow();
+      expect(producer.callCount).toEqual(0);
+
+      rerender(true);
+      await screen.findByText('Loading...');
+      expect(producer.callCount).toEqual(1);
+
+      act(() => producer.resolve('Sample string'));
+      await screen.findByText('Sample string');
+    });
+
+    it('should cancel the calls and go back to pending when disabled', async () => {
+      const producer = createDeferredProducer<string>();
+      const rerender = renderEnabled(producer);
+      rerender(true);
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+
+      rerender(false, 1);
+      expect(producer.signals[0].aborted).toBe(true);
+      expect(screen.queryByText('Loading...')).toBeNull();
+      await expect(() => waitFor(
+        () => expect(producer.callCount).toEqual(2),
+        { timeout: 100 },
+      )).rejects.toThrow();
+
+      rerender(true, 1);
+      await waitFor(() => expect(producer.callCount).toEqual(2));
+    });
+
+    it('should stay pending while disabled even when not initially pending', async () => {
+      const producer = createDeferredProducer<string>();
+      const rerender = renderEnabled(producer, { initiallyPending: false });
+      expect(screen.queryByText('Loading...')).toBeNull();
+
+      rerender(true);
+      await screen.findByText('Loading...');
+
+      rerender(false);
+      expect(screen.queryByText('Loading...')).toBeNull();
+      expect(producer.callCount).toEqual(1);
+    });
+
+    it('should stay pending while disabled even with hydrated data', async () => {
+      const producer = createDeferredProducer<string>();
+      const cache = new AsyncStateCache();
+      cache.hydrate({ entries: [{ key: 'key', data: 'Hydrated string', updatedAt: 0 }] });
+      const element = (enabled: boolean) => (
+        <AsyncStateCacheProvider cache={cache}>
+          <TestElement asyncFunction={producer} options={{ cacheKey: 'key', enabled }} />
+        </AsyncStateCacheProvider>
+      );
+      const { rerender } = render(element(false));
+      expect(screen.queryByText('Hydrated string')).toBeNull();
+
+      rerender(element(true));
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+      act(() => producer.resolve('New string'));
+      await screen.findByText('New string');
+    });
+  });
+
+  describe('persist option', () => {
+    afterEach(() => {
+      mockedWaitPromise.mockReset();
+    });
+
+    it('should render the persisted data and revalidate it without loading', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('key', JSON.stringify({
+        version: 0, updatedAt: 0, data: JSON.stringify('Persisted string'),
+      }));
+      const test = new TimedFixture({ persist: { key: 'key', storage } });
+      test.render(0);
+
+      expect(screen.getByText('Persisted string')).toBeTruthy();
+      await test.expectCallCount(1);
+      expect(screen.queryByText('Loading...')).toBeNull();
+
+      act(() => test.producer.resolve('New string'));
+      await screen.findByText('New string');
+    });
+
+    it('should hydrate the server rendered state before restoring the persisted data', async () => {
+      function PersistedElement(props: {
+        producer: DeferredProducer<string>,
+        storage: PersistStorage,
+      }): any {
+        const { producer, storage } = props;
+        const request = useAsyncEffectState(producer, [], { persist: { key: 'key', storage } });
+
+        return <p>{asyncUIBlock(request, (data) => data, String, () => 'Loading...')}</p>;
+      }
+
+      const storage = createMemoryStorage();
+      storage.setItem('key', JSON.stringify({
+        version: 0, updatedAt: 0, data: JSON.stringify('Persisted string'),
+      }));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      try {
+        const container = document.body.appendChild(document.createElement('div'));
+        container.innerHTML = '<p>Loading...</p>';
+        render(<PersistedElement producer={createDeferredProducer()} storage={storage} />, {
+          container,
+          hydrate: true,
+        });
+
+        await screen.findByText('Persisted string');
+        expect(consoleError).not.toHaveBeenCalled();
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+
+  describe('refetchIntervalMs option', () => {
+    afterEach(() => {
+      Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+      mockedWaitPromise.mockReset();
+    });
+
+    it('should refetch in the background without overlapping calls', async () => {
+      const test = new TestFixture({
+        refetchIntervalMs: 50,
+      });
+
+      test.render(0);
+      await test.expectLoadingRendered();
+      test.releaseResolver();
+      await test.expectSampleStringRendered();
+
+      await test.expectTotalCallCount(2);
+      await expect(() => test.expectLoadingRendered()).rejects.toThrow();
+
+      // The second call is still running.
+      expect(test.totalCallCount).toEqual(2);
+
+      test.releaseResolver();
+      await test.expectTotalCallCount(3);
+    });
+
+    it('should not refetch while the document is hidden', async () => {
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+      const test = new TestFixture({
+        refetchIntervalMs: 50,
+      });
+
+      test.render(0);
+      test.releaseResolver();
+      await test.expectSampleStringRendered();
+
+      await expect(() => test.expectTotalCallCount(2)).rejects.toThrow();
+    });
+
+    it('should not refetch while the refetch source is hidden', async () => {
+      const test = new TimedFixture({ refetchIntervalMs: 50 });
+      test.render(0);
+      await test.expectCallCount(1);
+      act(() => test.producer.resolve('First string'));
+      await screen.findByText('First string');
+
+      test.refetchSource.setVisible(false);
+      test.advanceBy(50);
+      await expect(() => test.expectCallCount(2)).rejects.toThrow();
+
+      test.refetchSource.setVisible(true);
+      test.advanceBy(50);
+      await test.expectCallCount(2);
+    });
+
+    it('should stop refetching on unmount', async () => {
+      const test = new TestFixture({
+        refetchIntervalMs: 50,
+      });
+
+      test.render(0);
+      test.releaseResolver();
+      await test.expectSampleStringRendered();
+      test.unmount();
+      const { totalCallCount } = test;
+
+      await expect(() => test.expectTotalCallCount(totalCallCount + 1)).rejects.toThrow();
+    });
+  });
+
+  describe('lifecycle events', () => {
+    it('should explain why a call never fired', async () => {
+      const recorder = new AsyncEventRecorder();
+      const test = new TestFixture({ onEvent: recorder.record });
+
+      test.render(0);
+      await test.expectTotalCallCount(1);
+      test.rerender(1);
+      test.rerender(2);
+      await test.expectNonceRendered(2);
+
+      test.releaseResolver();
+      await test.expectTotalCallCount(2);
+
+      expect(recorder.events.map(({ type, callId }) => `${type} #${callId}`)).toEqual([
+        'triggered #1',
+        'producer-started #1',
+        'triggered #2',
+        'queued #2',
+        'dropped-as-duplicate #2',
+        'triggered #3',
+        'queued #3',
+        'resolved #1',
+        'state-update-suppressed #1',
+        'producer-started #3',
+      ]);
+    });
+
+    it('should pass labelled events to global subscribers', async () => {
+      const recorder = new AsyncEventRecorder();
+      const unsubscribe = subscribeAsyncEvents(recorder.record);
+      const test = new TestFixture({ label: 'search' });
+
+      test.render(0);
+      test.releaseRejector(new Error('Error'));
+      await test.expectTextFound('Error: Error');
+      unsubscribe();
+
+      expect(recorder.events.map(({ type }) => type))
+        .toEqual(['triggered', 'producer-started', 'rejected']);
+      expect(recorder.events.every(({ label }) => label === 'search')).toBe(true);
+      expect(JSON.parse(recorder.dump())[2].error).toEqual('Error: Error');
+
+      test.unmount();
+      test.render(1);
+      await test.expectTotalCallCount(2);
+      expect(recorder.events.length).toEqual(3);
+    });
+
+    it('should log events on one line', () => {
+      const log = jest.fn();
+      const logger = createConsoleLogger({ log });
+
+      logger({
+        type: 'debounce-started', label: 'search', callId: 2, timestamp: 0, delayMs: 300,
+      });
+      logger({ type: 'reset', timestamp: 0 });
+
+      expect(log.mock.calls).toEqual([
+        ['[search #2] debounce-started', { delayMs: 300 }],
+        ['reset'],
+      ]);
+    });
+  });
+
+  describe('useManualAsyncState', () => {
+    function ManualTestElement(props: {
+      asyncFunction: (signal: AbortSignal) => Promise<string>,
+      options?: Options
+    }): any {
+      const { asyncFunction, options } = props;
+      const [request, trigger, reset] = useManualAsyncState(asyncFunction, options);
+
+      return (
+        <>
+          <button type="button" onClick={() => trigger()}>Trigger</button>
+          <button type="button" onClick={() => reset()}>Reset</button>
+          {
+              asyncUIBlock(
+                request,
+                (testString: string) => <p>{testString}</p>,
+                (error) => <p>{error.toString()}</p>,
+                () => <p>Loading...</p>,
+                () => <p>Pending...</p>,
+              )
+            }
+        </>
+      );
+    }
+
+    class ManualTestFixture extends TestFixture {
+      private user: UserEvent;
+
+      private blocking: boolean;
+
+      constructor(blocking = false) {
+        super();
+        this.user = userEvent.setup();
+        this.blocking = blocking;
+      }
+
+      async asyncFunction(signal?: AbortSignal) {
+        if (this.blocking) {
+          return super.asyncFunction(signal);
+        }
+        this.totalCallCount += 1;
+        return 'Sample string';
+      }
+
+      render() {
+        this.renderResult = render(<ManualTestElement
+          asyncFunction={(signal) => this.asyncFunction(signal)}
+        />);
+      }
+
+      async clickTrigger() {
+        await this.user.click(await screen.findByText('Trigger'));
+      }
+
+      async clickReset() {
+        await this.user.click(await screen.findByText('Reset'));
+      }
+
+      async expectPendingRendered() {
+        await waitFor(() => screen.findByText('Pending...'));
+      }
+    }
+
+    it('should render pending not render resulting string until triggered', async () => {
+      const test = new ManualTestFixture(true);
+      test.render();
+
+      await test.expectPendingRendered();
+      await expect(() => test.expectSampleStringRendered()).rejects.toThrow();
+      await test.expectTotalCallCount(0);
+
+      await test.clickTrigger();
+      await test.expectLoadingRendered();
+      await test.releaseResolver();
+
+      await test.expectTotalCallCount(1);
+      await test.expectSampleStringRendered();
+
+      await test.clickReset();
+      await test.expectPendingRendered();
+    });
+
+    it('should abort the running call on reset', async () => {
+      const test = new ManualTestFixture(true);
+      test.render();
+
+      await test.clickTrigger();
+      await test.expectTotalCallCount(1);
+      expect(test.signals[0].aborted).toBe(false);
+
+      await test.clickReset();
+      await test.expectPendingRendered();
+      expect(test.signals[0].aborted).toBe(true);
+
+      test.releaseResolver();
+      await expect(() => test.expectSampleStringRendered()).rejects.toThrow();
+    });
+
+    it('should not render error when an aborted call reject', async () => {
+      const test = new ManualTestFixture(true);
+      test.render();
+
+      await test.clickTrigger();
+      await test.expectTotalCallCount(1);
+
+      await test.clickReset();
+      test.releaseRejector(new Error('Aborted'));
+
+      await expect(() => test.expectTextFound('Error: Aborted')).rejects.toThrow();
+      await test.expectPendingRendered();
+    });
+
+    it('should pass the trigger arguments to the producer and resolve to the outcome', async () => {
+      const outcomes: AsyncTriggerOutcome<string>[] = [];
+
+      function GreetElement(): any {
+        const [request, trigger] = useManualAsyncState(
+          (signal, info, name: string) => Promise.resolve(`Hello ${name}`),
+        );
+        const greet = () => {
+          trigger('World').then((outcome) => outcomes.push(outcome));
+        };
+
+        return (
+          <>
+            <button type="button" onClick={greet}>Greet</button>
+            {asyncUIBlock(request, (text: string) => <p>{text}</p>, (error) => error.toString())}
+          </>
+        );
+      }
+
+      render(<GreetElement />);
+      await userEvent.setup().click(await screen.findByText('Greet'));
+
+      await screen.findByText('Hello World');
+      await waitFor(() => expect(outcomes).toEqual([
+        [AsyncState.RESOLVED, 'Hello World', null, expect.anything()],
+      ]));
+    });
+
+    it('should still pass the signal first when the trigger is an event handler', async () => {
+      const producer = createDeferredProducer<string>();
+
+      function ClickElement(): any {
+        const [request, trigger] = useManualAsyncState(producer);
+
+        return (
+          <>
+            <button type="button" onClick={trigger}>Start</button>
+            {asyncUIBlock(request, (text: string) => <p>{text}</p>, (error) => error.toString())}
+          </>
+        );
+      }
+
+      render(<ClickElement />);
+      await userEvent.setup().click(await screen.findByText('Start'));
+
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+      expect(producer.signals[0]).toBeInstanceOf(AbortSignal);
+      act(() => producer.resolve('Sample string'));
+      await screen.findByText('Sample string');
+    });
+  });
+
+  describe('useInfiniteAsyncState', () => {
+    function InfiniteTestElement(props: {
+      fetchPage: (cursor: number) => Promise<string>,
+      nonce: number,
+    }): any {
+      const { fetchPage, nonce } = props;
+      const [pages, fetchNextPage, hasNextPage] = useInfiniteAsyncState(
+        (cursor: number) => fetchPage(cursor),
+        (lastPage: string, loadedPages: string[]) => (loadedPages.length < 3
+          ? loadedPages.length
+          : null),
+        [nonce],
+        { initialCursor: 0 },
+      );
+
+      return (
+        <>
+          {pages.map((page, index) => asyncUIBlock(
+            page,
+            (pageString: string) => <p key={pageString}>{pageString}</p>,
+            (error) => <p key="error">{error.toString()}</p>,
+            // eslint-disable-next-line react/no-array-index-key
+            () => <p key={`loading-${index}`}>Loading page {index}...</p>,
+          ))}
+          <button type="button" onClick={fetchNextPage}>Next page</button>
+          <p>{hasNextPage ? 'Has next page' : 'No next page'}</p>
+        </>
+      );
+    }
+
+    class InfiniteTestFixture extends TestFixture {
+      private nonce: number;
+
+      async fetchPage(cursor: number) {
+        await this.asyncFunction();
+        return `Page ${cursor} nonce ${this.nonce}`;
+      }
+
+      element(nonce: number) {
+        this.nonce = nonce;
+        return <InfiniteTestElement fetchPage={(cursor) => this.fetchPage(cursor)} nonce={nonce} />;
+      }
+
+      render(nonce: number) {
+        this.renderResult = render(this.element(nonce));
+      }
+
+      rerender(nonce: number) {
+        this.renderResult.rerender(this.element(nonce));
+      }
+
+      async clickNextPage() {
+        await userEvent.setup().click(await screen.findByText('Next page'));
+      }
+    }
+
+    it('should accumulate pages until there is no next page', async () => {
+      const test = new InfiniteTestFixture();
+      test.render(0);
+
+      await test.expectTextFound('Loading page 0...');
+      test.releaseResolver();
+      await test.expectTextFound('Page 0 nonce 0');
+      await test.expectTextFound('Has next page');
+
+      await test.clickNextPage();
+      await test.expectTextFound('Loading page 1...');
+      test.releaseResolver();
+      await test.expectTextFound('Page 1 nonce 0');
+
+      await test.clickNextPage();
+      test.releaseResolver();
+      await test.expectTextFound('Page 2 nonce 0');
+      await test.expectTextFound('No next page');
+
+      await test.clickNextPage();
+      await test.expectTotalCallCount(3);
+      await test.expectTextFound('Page 0 nonce 0');
+    });
+
+    it('should deduplicate fetch next page calls while a page is loading', async () => {
+      const test = new InfiniteTestFixture();
+      test.render(0);
+      test.releaseResolver();
+      await test.expectTextFound('Page 0 nonce 0');
+
+      await test.clickNextPage();
+      await test.clickNextPage();
+      test.releaseResolver();
+      await test.expectTextFound('Page 1 nonce 0');
+
+      await expect(() => test.expectTextFound('Loading page 2...')).rejects.toThrow();
+      expect(test.totalCallCount).toEqual(2);
+    });
+
+    it('should restart from the first page on dependency change', async () => {
+      const test = new InfiniteTestFixture();
+      test.render(0);
+      test.releaseResolver();
+      await test.expectTextFound('Page 0 nonce 0');
+      await test.clickNextPage();
+      test.releaseResolver();
+      await test.expectTextFound('Page 1 nonce 0');
+
+      test.rerender(1);
+      await test.expectTextFound('Loading page 0...');
+      test.releaseResolver();
+      await test.expectTextFound('Page 0 nonce 1');
+      await expect(() => test.expectTextFound('Page 1 nonce 0')).rejects.toThrow();
+    });
+  });
+
+  describe('useAsyncMutation', () => {
+    function MutationTestElement(props: {
+      mutate: (name: string) => Promise<string>,
+      onSettled: (data: string, error: Error) => void,
+      onOutcome: (outcome: AsyncTriggerOutcome<string, any>) => void,
+      onSuccess?: () => void,
+    }): any {
+      const {
+        mutate, onSettled, onOutcome, onSuccess,
+      } = props;
+      const [name, setName] = React.useState('Old name');
+      const [request, trigger] = useAsyncMutation(mutate, {
+        onMutate: (newName: string) => {
+          const previousName = name;
+          setName(newName);
+          return previousName;
+        },
+        onSuccess,
+        onError: (error, newName, previousName) => setName(previousName),
+        onSettled: (data, error) => onSettled(data, error),
+      });
+
+      return (
+        <>
+          <button type="button" onClick={() => trigger('New name').then(onOutcome)}>Mutate</button>
+          <p>Name is {name}</p>
+          {
+            asyncUIBlock(
+              request,
+              (savedName: string) => <p>Saved {savedName}</p>,
+              (error) => <p>{error.toString()}</p>,
+              () => <p>Saving...</p>,
+              () => <p>Not saved</p>,
+            )
+          }
+        </>
+      );
+    }
+
+    class MutationTestFixture extends TestFixture {
+      settled: [string, Error][] = [];
+
+      outcomes: AsyncTriggerOutcome<string, any>[] = [];
+
+      onSuccess?: () => void;
+
+      async mutate(name: string) {
+        await this.asyncFunction();
+        return name;
+      }
+
+      render() {
+        this.renderResult = render(<MutationTestElement
+          mutate={(name) => this.mutate(name)}
+          onSettled={(data, error) => this.settled.push([data, error])}
+          onOutcome={(outcome) => this.outcomes.push(outcome)}
+          onSuccess={this.onSuccess}
+        />);
+      }
+
+      async clickMutate() {
+        await userEvent.setup().click(await screen.findByText('Mutate'));
+      }
+    }
+
+    it('should optimistically update and then render the result', async () => {
+      const test = new MutationTestFixture();
+      test.render();
+      await test.expectTextFound('Not saved');
+
+      await test.clickMutate();
+      await test.expectTextFound('Saving...');
+      await test.expectTextFound('Name is New name');
+
+      test.releaseResolver();
+      await test.expectTextFound('Saved New name');
+      expect(test.settled).toEqual([['New name', null]]);
+      await waitFor(() => expect(test.outcomes).toEqual([[AsyncState.RESOLVED, 'New name', null]]));
+    });
+
+    it('should roll back the optimistic update on error', async () => {
+      const test = new MutationTestFixture();
+      test.render();
+
+      await test.clickMutate();
+      await test.expectTextFound('Name is New name');
+
+      test.releaseRejector(new Error('Error'));
+      await test.expectTextFound('Error: Error');
+      await test.expectTextFound('Name is Old name');
+      expect(test.settled).toEqual([[null, new Error('Error')]]);
+      await waitFor(() => expect(test.outcomes).toEqual([
+        [AsyncState.ERROR, null, new Error('Error')],
+      ]));
+    });
+
+    it('should resolve to the outcome and rethrow the error when a callback throws', async () => {
+      const uncaughtErrors: Error[] = [];
+      const onUncaughtError = (event: ErrorEvent) => {
+        event.preventDefault();
+        uncaughtErrors.push(event.error);
+      };
+      window.addEventListener('error', onUncaughtError);
+      try {
+        const test = new MutationTestFixture();
+        test.onSuccess = () => {
+          throw new Error('Callback error');
+        };
+        test.render();
+
+        await test.clickMutate();
+        test.releaseResolver();
+        await test.expectTextFound('Saved New name');
+        await waitFor(() => expect(test.outcomes).toEqual([
+          [AsyncState.RESOLVED, 'New name', null],
+        ]));
+        expect(test.settled).toEqual([['New name', null]]);
+        await waitFor(() => expect(uncaughtErrors).toEqual([new Error('Callback error')]));
+      } finally {
+        window.removeEventListener('error', onUncaughtError);
+      }
+    });
+  });
+
+  describe('useSuspenseAsyncState', () => {
+    class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { error?: Error }> {
+      constructor(props) {
+        super(props);
+        this.state = {};
+      }
+
+      static getDerivedStateFromError(error: Error) {
+        return { error };
+      }
+
+      render() {
+        const { error } = this.state;
+        const { children } = this.props;
+        if (error) {
+          return <p>Boundary {error.toString()}</p>;
+        }
+        return children;
+      }
+    }
+
+    function SuspenseTestElement(props: {
+      asyncFunction: (signal: AbortSignal) => Promise<string>,
+      nonce: number,
+    }): any {
+      const { asyncFunction, nonce } = props;
+      const testString = useSuspenseAsyncState(asyncFunction, [nonce], { cacheKey: 'test' });
+
+      return <p>{testString} {nonce}</p>;
+    }
+
+    class SuspenseTestFixture extends TestFixture {
+      scheduler = new TestScheduler();
+
+      cache = new AsyncStateCache();
+
+      element(nonce: number) {
+        return (
+          <AsyncSchedulerProvider scheduler={this.scheduler}>
+            <AsyncStateCacheProvider cache={this.cache}>
+              <ErrorBoundary>
+                <Suspense fallback={<p>Loading...</p>}>
+                  <SuspenseTestElement
+                    asyncFunction={(signal) => this.asyncFunction(signal)}
+                    nonce={nonce}
+                  />
+                </Suspense>
+              </ErrorBoundary>
+            </AsyncStateCacheProvider>
+          </AsyncSchedulerProvider>
+        );
+      }
+
+      render(nonce: number) {
+        this.renderResult = render(this.element(nonce));
+      }
+
+      rerender(nonce: number) {
+        this.renderResult.rerender(this.element(nonce));
+      }
+    }
+
+    it('should render the suspense fallback and then the resulting string', async () => {
+      const test = new SuspenseTestFixture();
+      test.render(0);
+
+      await test.expectLoadingRendered();
+      await test.expectTotalCallCount(1);
+      test.releaseResolver();
+
+      await test.expectTextFound('Sample string 0');
+      expect(test.totalCallCount).toEqual(1);
+    });
+
+    it('should throw the error to the error boundary', async () => {
+      const test = new SuspenseTestFixture();
+      test.render(0);
+
+      await test.expectLoadingRendered();
+      test.releaseRejector(new Error('Error'));
+
+      await test.expectTextFound('Boundary Error: Error');
+    });
+
+    it('should forget the thrown error on the next tick of the scheduler', async () => {
+      const test = new SuspenseTestFixture();
+      test.render(0);
+
+      await test.expectLoadingRendered();
+      test.releaseRejector(new Error('Error'));
+      await test.expectTextFound('Boundary Error: Error');
+      expect(test.cache.peekError('test:[0]')).toBeTruthy();
+      expect(test.scheduler.pendingTimerCount()).toEqual(1);
+
+      act(() => test.scheduler.advanceBy(0));
+      expect(test.cache.peekError('test:[0]')).toBeUndefined();
+    });
+
+    it('should suspend again on dependency change', async () => {
+      const test = new SuspenseTestFixture();
+      test.render(0);
+      test.releaseResolver();
+      await test.expectTextFound('Sample string 0');
+
+      test.rerender(1);
+      await test.expectLoadingRendered();
+      await test.expectTotalCallCount(2);
+      test.releaseResolver();
+
+      await test.expectTextFound('Sample string 1');
+    });
+  });
+
+  describe('AsyncView and AsyncBoundary', () => {
+    const renderResolved = (data: string) => <p>Resolved {data}</p>;
+    const renderOwnLoading = () => <p>Own loading</p>;
+
+    function ViewElement(props: { producer: DeferredProducer<string>, withLoading?: boolean }) {
+      const { producer, withLoading } = props;
+      const state = useAsyncEffectState(producer, []);
+
+      return (
+        <AsyncView
+          state={state}
+          resolved={renderResolved}
+          loading={withLoading ? renderOwnLoading : undefined}
+        />
+      );
+    }
+
+    function renderInBoundary(producer: DeferredProducer<string>, withLoading?: boolean) {
+      return render(
+        <AsyncBoundary
+          loading={() => <p>Boundary loading</p>}
+          error={(error, retry) => <button type="button" onClick={retry}>Retry {error.message}</button>}
+        >
+          <AsyncBoundary pending={() => <p>Boundary pending</p>}>
+            <ViewElement producer={producer} withLoading={withLoading} />
+          </AsyncBoundary>
+        </AsyncBoundary>,
+      );
+    }
+
+    it('should render the loading and error of the closest boundary', async () => {
+      const producer = createDeferredProducer<string>();
+      renderInBoundary(producer);
+
+      expect(screen.getByText('Boundary loading')).toBeTruthy();
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+      act(() => producer.reject(new Error('Failed')));
+      await screen.findByText('Retry Failed');
+    });
+
+    it('should prefer the renderers given to the view', () => {
+      renderInBoundary(createDeferredProducer<string>(), true);
+
+      expect(screen.getByText('Own loading')).toBeTruthy();
+      expect(screen.queryByText('Boundary loading')).toBeNull();
+    });
+
+    it('should trigger the call again on retry', async () => {
+      const producer = createDeferredProducer<string>();
+      renderInBoundary(producer);
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+      act(() => producer.reject(new Error('Failed')));
+
+      await userEvent.click(await screen.findByText('Retry Failed'));
+      await screen.findByText('Boundary loading');
+      expect(producer.callCount).toEqual(2);
+
+      act(() => producer.resolve('string'));
+      await screen.findByText('Resolved string');
+    });
+
+    it('should render the pending renderer', () => {
+      render(
+        <AsyncBoundary pending={() => <p>Boundary pending</p>}>
+          <AsyncView state={[AsyncState.PENDING, null, null]} resolved={() => null} />
+        </AsyncBoundary>,
+      );
+
+      expect(screen.getByText('Boundary pending')).toBeTruthy();
+    });
+  });
+
+  describe('flatMap', () => {
+    const loadingState: AsyncEffectState<string> = [AsyncState.LOADING, null, null];
+    const errorState: AsyncEffectState<string> = [AsyncState.ERROR, null, null];
+    const resolvedState: AsyncEffectState<string> = [AsyncState.RESOLVED, 'input', null];
+    const transformedString = 'input-transformed';
+
+    const transformer: (input: string) => AsyncEffectState<string> = (resolvedInput) => [AsyncState.RESOLVED, `${resolvedInput}-transformed`, null];
+
+    it('returns original async state when in loading state', () => {
       expect(flatMap(transformer, loadingState)).toBe(loadingState);
     });
 
@@ -403,6 +1951,41 @@ describe('useAsyncEffectState', () => {
       expect(state).toEqual(AsyncState.RESOLVED);
       expect(value).toEqual(transformedString);
     });
+
+    it('maps the value of a streaming state', () => {
+      const [state, value] = map(transformer, [AsyncState.STREAMING, 'input', null]);
+
+      expect(state).toEqual(AsyncState.STREAMING);
+      expect(value).toEqual(transformedString);
+    });
+
+    it('maps the previous data of a non resolved state', () => {
+      const [state, value, error, meta] = map(transformer, [AsyncState.LOADING, null, null, {
+        previousData: 'input',
+        isRefetching: true,
+        updatedAt: 1000,
+      }]);
+
+      expect(state).toEqual(AsyncState.LOADING);
+      expect(meta).toEqual({
+        previousData: transformedString,
+        isRefetching: true,
+        updatedAt: 1000,
+      });
+    });
+  });
+
+  it('keeps the retry of an error state through map and flatMap', () => {
+    const retry = () => undefined;
+    const errorState: AsyncEffectState<string> = [AsyncState.ERROR, null, new Error('Error'), {
+      isRefetching: false,
+      updatedAt: null,
+      retry,
+    }];
+
+    expect(map((input) => input.length, errorState)[3].retry).toBe(retry);
+    expect(flatMap((input) => [AsyncState.RESOLVED, input.length, null], errorState)[3].retry)
+      .toBe(retry);
   });
 
   describe('combiner', () => {
@@ -429,5 +2012,90 @@ describe('useAsyncEffectState', () => {
       expect(state).toEqual(AsyncState.RESOLVED);
       expect(value).toEqual(transformedString);
     });
+
+    it('combines the previous data of both inputs', () => {
+      const [state, value, error, meta] = combine(
+        transformer,
+        [AsyncState.RESOLVED, 'input1', null, {
+          previousData: 'input1',
+          isRefetching: false,
+          updatedAt: 2000,
+        }],
+        [AsyncState.LOADING, null, null, {
+          previousData: 'input2',
+          isRefetching: true,
+          updatedAt: 1000,
+        }],
+      );
+
+      expect(state).toEqual(AsyncState.LOADING);
+      expect(meta).toEqual({
+        previousData: transformedString,
+        isRefetching: true,
+        updatedAt: 1000,
+      });
+    });
+
+    it('keeps the error type of the inputs', () => {
+      const apiErrorState: AsyncEffectState<string, { status: number }> = [
+        AsyncState.ERROR, null, { status: 404 },
+      ];
+
+      const [, , mappedError] = map((value) => value.length, apiErrorState);
+      expect(mappedError.status).toEqual(404);
+
+      const [, , combinedError] = combine(transformer, apiErrorState, resolvedState2);
+      expect((combinedError as { status: number }).status).toEqual(404);
+
+      const [, , flatMappedError] = flatMap(() => resolvedState2, apiErrorState);
+      expect((flatMappedError as { status: number }).status).toEqual(404);
+    });
+
+    it('follows a custom precedence', () => {
+      expect(combine(transformer, errorState, loadingState)[0]).toEqual(AsyncState.ERROR);
+      expect(combine(transformer, errorState, loadingState, {
+        precedence: [AsyncState.LOADING],
+      })[0]).toEqual(AsyncState.LOADING);
+    });
+
+    it('combines any number of inputs with combineAll', () => {
+      const numberState: AsyncEffectState<number> = [AsyncState.RESOLVED, 3, null];
+      const [state, value] = combineAll(
+        [resolvedState1, resolvedState2, numberState],
+        (input1, input2, count) => `${input1}-${input2}-${count.toFixed(0)}`,
+      );
+
+      expect(state).toEqual(AsyncState.RESOLVED);
+      expect(value).toEqual('input1-input2-3');
+      expect(combineAll([resolvedState1, loadingState, errorState], transformer)[0])
+        .toEqual(AsyncState.ERROR);
+    });
+
+    it('combines a record of inputs with combineRecord', () => {
+      const [state, value] = combineRecord({
+        first: resolvedState1,
+        count: [AsyncState.RESOLVED, 3, null] as AsyncEffectState<number>,
+      });
+
+      expect(state).toEqual(AsyncState.RESOLVED);
+      expect(value).toEqual({ first: 'input1', count: 3 });
+      expect(combineRecord({ first: resolvedState1, second: loadingState })[0])
+        .toEqual(AsyncState.LOADING);
+    });
+
+    it('waits for every input to settle with allSettled', () => {
+      expect(allSettled([errorState, loadingState])[0]).toEqual(AsyncState.LOADING);
+
+      const [state, value] = allSettled([resolvedState1, errorState]);
+      expect(state).toEqual(AsyncState.RESOLVED);
+      expect(value[0]).toBe(resolvedState1);
+      expect(value[1]).toBe(errorState);
+    });
+
+    it('returns the first resolved input with firstResolved', () => {
+      expect(firstResolved([loadingState, errorState, resolvedState2])).toBe(resolvedState2);
+      expect(firstResolved([errorState, loadingState])).toBe(loadingState);
+      expect(firstResolved([errorState, errorState])).toBe(errorState);
+    });
   });
 });
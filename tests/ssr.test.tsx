@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import {
+  AsyncStateCache,
+  AsyncStateCacheProvider,
+  asyncUIBlock,
+  useAsyncEffectState,
+} from '../src';
+
+describe('server rendering', () => {
+  function CachedElement(props: { asyncFunction: () => Promise<string> }): any {
+    const { asyncFunction } = props;
+    const request = useAsyncEffectState(asyncFunction, [], { cacheKey: 'key' });
+
+    return (
+      <p>
+        {
+          asyncUIBlock(
+            request,
+            (testString: string) => testString,
+            (error) => error.toString(),
+            () => 'Loading...',
+          )
+        }
+      </p>
+    );
+  }
+
+  function renderOnServer(cache: AsyncStateCache) {
+    return renderToString(
+      <AsyncStateCacheProvider cache={cache}>
+        <CachedElement asyncFunction={() => new Promise(() => {})} />
+      </AsyncStateCacheProvider>,
+    );
+  }
+
+  let cache: AsyncStateCache;
+
+  beforeEach(() => {
+    cache = new AsyncStateCache();
+  });
+
+  afterEach(() => {
+    cache.clear();
+  });
+
+  it('should render prefetched data', async () => {
+    await cache.prefetch('key', () => Promise.resolve('Server string'));
+
+    expect(renderOnServer(cache)).toContain('Server string');
+  });
+
+  it('should render the loading state without prefetch', () => {
+    expect(renderOnServer(cache)).toContain('Loading...');
+  });
+});
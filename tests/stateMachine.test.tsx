@@ -0,0 +1,339 @@
+import { waitFor } from '@testing-library/react';
+import {
+  AsyncCallInfo,
+  AsyncState,
+  AsyncStateCache,
+  AsyncStateMachine,
+  createMemoryStorage,
+  PersistStorage,
+  SUPERSEDED,
+} from '../src';
+import {
+  createDeferredProducer,
+  createStateRecorder,
+  expectStates,
+  TestScheduler,
+} from '../src/testing';
+
+describe('AsyncStateMachine', () => {
+  it('should run calls and notify subscribers without rendering', async () => {
+    const producer = createDeferredProducer<string>();
+    const recorder = createStateRecorder<string>();
+    const machine = new AsyncStateMachine(producer);
+    recorder.record(machine.getSnapshot());
+    machine.subscribe(() => recorder.record(machine.getSnapshot()));
+
+    machine.trigger();
+    await waitFor(() => expect(producer.callCount).toEqual(1));
+    producer.resolve('Sample string');
+
+    await waitFor(() => expect(machine.getSnapshot()[1]).toEqual('Sample string'));
+    expectStates(recorder, [AsyncState.PENDING, AsyncState.LOADING, AsyncState.RESOLVED]);
+  });
+
+  it('should abort the running call and go back to pending on reset', async () => {
+    const producer = createDeferredProducer<string>();
+    const machine = new AsyncStateMachine(producer);
+
+    machine.trigger();
+    expect(machine.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+    await waitFor(() => expect(producer.callCount).toEqual(1));
+
+    machine.reset();
+    expect(machine.getSnapshot()[0]).toEqual(AsyncState.PENDING);
+    expect(producer.signals[0].aborted).toBe(true);
+  });
+
+  it('should stop notifying a listener once unsubscribed', () => {
+    const machine = new AsyncStateMachine(createDeferredProducer<string>());
+    const listener = jest.fn();
+    const unsubscribe = machine.subscribe(listener);
+
+    machine.trigger();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    machine.reset();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up data of its cache key only while subscribed', () => {
+    const cache = new AsyncStateCache();
+    const machine = new AsyncStateMachine(
+      createDeferredProducer<string>(),
+      { cacheKey: 'key', initiallyPending: false },
+      { cache },
+    );
+
+    cache.set('key', 'Ignored string');
+    expect(machine.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+
+    const unsubscribe = machine.subscribe(() => undefined);
+    cache.set('key', 'Shared string');
+    expect(machine.getSnapshot()).toEqual([
+      AsyncState.RESOLVED,
+      'Shared string',
+      null,
+      expect.objectContaining({ previousData: 'Shared string' }),
+    ]);
+    unsubscribe();
+  });
+
+  it('should only listen to a new cache key once subscribed again', () => {
+    const cache = new AsyncStateCache();
+    const producer = createDeferredProducer<string>();
+    const options = { initiallyPending: false };
+    const machine = new AsyncStateMachine(producer, { ...options, cacheKey: 'first' }, { cache });
+    const unsubscribe = machine.subscribe(() => undefined);
+
+    machine.configure(producer, { ...options, cacheKey: 'second' }, { cache });
+    cache.set('second', 'Uncommitted string');
+    expect(machine.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+
+    unsubscribe();
+    machine.subscribe(() => undefined);
+    cache.set('second', 'Second string');
+    expect(machine.getSnapshot()[1]).toEqual('Second string');
+  });
+
+  it('should keep the loading state for minLoadingMs when the call is shared through the cache', async () => {
+    const scheduler = new TestScheduler();
+    const producer = createDeferredProducer<string>();
+    const recorder = createStateRecorder<string>();
+    const machine = new AsyncStateMachine(
+      producer,
+      { cacheKey: 'key', minLoadingMs: 1000 },
+      { cache: new AsyncStateCache(scheduler), scheduler },
+    );
+    machine.subscribe(() => recorder.record(machine.getSnapshot()));
+
+    machine.trigger();
+    await waitFor(() => expect(producer.callCount).toEqual(1));
+    producer.resolve('Shared string');
+    await waitFor(() => expect(scheduler.pendingTimerCount()).toEqual(1));
+    expect(machine.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+
+    scheduler.advanceBy(1000);
+    await waitFor(() => expect(machine.getSnapshot()[1]).toEqual('Shared string'));
+    expectStates(recorder, [AsyncState.LOADING, AsyncState.RESOLVED]);
+  });
+
+  it('should keep the update time of data served from the cache', async () => {
+    const scheduler = new TestScheduler(1000);
+    const cache = new AsyncStateCache(scheduler);
+    const producer = createDeferredProducer<string>();
+    cache.set('key', 'Cached string');
+    scheduler.advanceBy(500);
+
+    const machine = new AsyncStateMachine(
+      producer,
+      { cacheKey: 'key', staleTimeMs: 60000 },
+      { cache, scheduler },
+    );
+    const outcome = await machine.trigger();
+    expect(outcome).toEqual([
+      AsyncState.RESOLVED,
+      'Cached string',
+      null,
+      expect.objectContaining({ updatedAt: 1000 }),
+    ]);
+    expect(producer.callCount).toEqual(0);
+  });
+
+  it('should pass the trigger arguments after the signal and the call info', async () => {
+    const producer = jest.fn(
+      (signal: AbortSignal, info: AsyncCallInfo, id: number) => Promise.resolve(`User ${id}`),
+    );
+    const machine = new AsyncStateMachine(producer);
+
+    const outcome = await machine.trigger(42);
+    expect(outcome).toEqual([AsyncState.RESOLVED, 'User 42', null, expect.anything()]);
+    expect(producer.mock.calls[0][0]).toBeInstanceOf(AbortSignal);
+    expect(producer.mock.calls[0][1].attempt).toEqual(1);
+    expect(producer.mock.calls[0][2]).toEqual(42);
+  });
+
+  it('should report progress of the type of its producer', async () => {
+    type UploadProgress = { loaded: number, total: number };
+    const machine = new AsyncStateMachine(
+      (signal: AbortSignal, { reportProgress }: AsyncCallInfo<UploadProgress>) => {
+        reportProgress({ loaded: 1, total: 2 });
+        return new Promise<string>(() => {});
+      },
+    );
+
+    machine.trigger();
+    await waitFor(() => expect(machine.getSnapshot()[3]?.progress?.loaded).toEqual(1));
+    expect(machine.getSnapshot()[3]?.progress?.total).toEqual(2);
+  });
+
+  it('should resolve superseded calls to SUPERSEDED', async () => {
+    const producer = createDeferredProducer<string>();
+    const machine = new AsyncStateMachine(producer);
+
+    const first = machine.trigger();
+    await waitFor(() => expect(producer.callCount).toEqual(1));
+    const second = machine.trigger();
+    const third = machine.trigger();
+    expect(await first).toEqual(SUPERSEDED);
+    expect(await second).toEqual(SUPERSEDED);
+
+    await waitFor(() => expect(producer.callCount).toEqual(2));
+    producer.resolve('Latest string');
+    expect(await third).toEqual([AsyncState.RESOLVED, 'Latest string', null, expect.anything()]);
+  });
+
+  it('should resolve a cancelled call to SUPERSEDED', async () => {
+    const producer = createDeferredProducer<string>();
+    const machine = new AsyncStateMachine(producer);
+
+    const call = machine.trigger();
+    call.cancel();
+    expect(await call).toEqual(SUPERSEDED);
+    expect(machine.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+  });
+
+  it('should run the queued call when a timed call superseded by it ignores its signal', async () => {
+    let callCount = 0;
+    const machine = new AsyncStateMachine(
+      () => {
+        callCount += 1;
+        return callCount === 1 ? new Promise<string>(() => {}) : Promise.resolve('Second string');
+      },
+      { timeoutMs: 100 },
+      { scheduler: new TestScheduler() },
+    );
+
+    machine.trigger();
+    await waitFor(() => expect(callCount).toEqual(1));
+    machine.trigger();
+
+    await waitFor(() => expect(machine.getSnapshot()[1]).toEqual('Second string'));
+    expect(callCount).toEqual(2);
+  });
+
+  it('should remove the abort listeners of timed attempts once they settle', async () => {
+    const added = jest.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removed = jest.spyOn(AbortSignal.prototype, 'removeEventListener');
+    try {
+      let callCount = 0;
+      const machine = new AsyncStateMachine(
+        () => {
+          callCount += 1;
+          return callCount === 1
+            ? Promise.reject(new Error('First error'))
+            : Promise.resolve('Second string');
+        },
+        { timeoutMs: 100, retry: 1, retryDelayMs: 0 },
+      );
+
+      const outcome = await machine.trigger();
+      expect(outcome).toEqual([AsyncState.RESOLVED, 'Second string', null, expect.anything()]);
+      const listeners = (spy: typeof added) => spy.mock.calls
+        .filter(([type]) => type === 'abort')
+        .map(([, listener]) => listener);
+      expect(listeners(added).length).toBeGreaterThan(0);
+      expect(listeners(removed)).toEqual(expect.arrayContaining(listeners(added)));
+    } finally {
+      added.mockRestore();
+      removed.mockRestore();
+    }
+  });
+
+  describe('persist option', () => {
+    function persistedEntry(data: unknown, version = 0, updatedAt = Date.now()) {
+      return JSON.stringify({ version, updatedAt, data: JSON.stringify(data) });
+    }
+
+    it('should start with the persisted data and store the revalidated data', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('key', persistedEntry('Persisted string', 0, 1000));
+      const producer = createDeferredProducer<string>();
+      const machine = new AsyncStateMachine(producer, {
+        initiallyPending: false,
+        persist: { key: 'key', storage },
+      });
+
+      expect(machine.getSnapshot()).toEqual([
+        AsyncState.RESOLVED,
+        'Persisted string',
+        null,
+        {
+          previousData: 'Persisted string', isRefetching: false, updatedAt: 1000, isRestored: true,
+        },
+      ]);
+
+      machine.trigger();
+      expect(machine.getSnapshot()[0]).toEqual(AsyncState.RESOLVED);
+      expect(machine.getSnapshot()[3].isRefetching).toBe(true);
+
+      await waitFor(() => expect(producer.callCount).toEqual(1));
+      producer.resolve('New string');
+      await waitFor(() => expect(machine.getSnapshot()[1]).toEqual('New string'));
+      expect(machine.getSnapshot()[3].isRestored).toBeUndefined();
+      await waitFor(() => expect(JSON.parse(storage.getItem('key') as string).data)
+        .toEqual('"New string"'));
+    });
+
+    it('should not restore persisted data while disabled', () => {
+      const storage = createMemoryStorage();
+      storage.setItem('key', persistedEntry('Persisted string'));
+      const machine = new AsyncStateMachine(createDeferredProducer<string>(), {
+        enabled: false,
+        persist: { key: 'key', storage },
+      });
+
+      expect(machine.getSnapshot()[0]).toEqual(AsyncState.PENDING);
+    });
+
+    it('should discard persisted data of another version or expired', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('old', persistedEntry('Old string', 1));
+      storage.setItem('expired', persistedEntry('Expired string', 2, Date.now() - 2000));
+
+      const old = new AsyncStateMachine(createDeferredProducer<string>(), {
+        initiallyPending: false,
+        persist: { key: 'old', storage, version: 2 },
+      });
+      const expired = new AsyncStateMachine(createDeferredProducer<string>(), {
+        initiallyPending: false,
+        persist: {
+          key: 'expired', storage, version: 2, ttlMs: 1000,
+        },
+      });
+
+      expect(old.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+      expect(expired.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+      await waitFor(() => expect(storage.getItem('old')).toBeNull());
+      await waitFor(() => expect(storage.getItem('expired')).toBeNull());
+    });
+
+    it('should restore from an asynchronous storage while the call is loading', async () => {
+      const memory = createMemoryStorage();
+      memory.setItem('key', persistedEntry({ date: '2020-01-01' }));
+      const storage: PersistStorage = {
+        getItem: (key) => Promise.resolve(memory.getItem(key)),
+        setItem: (key, value) => Promise.resolve(memory.setItem(key, value)),
+        removeItem: (key) => Promise.resolve(memory.removeItem(key)),
+      };
+      const machine = new AsyncStateMachine(createDeferredProducer<Date>(), {
+        initiallyPending: false,
+        persist: {
+          key: 'key',
+          storage,
+          serializer: {
+            serialize: (data: Date) => JSON.stringify({ date: data.toISOString() }),
+            deserialize: (serialized) => new Date(JSON.parse(serialized).date),
+          },
+        },
+      });
+
+      machine.trigger();
+      expect(machine.getSnapshot()[0]).toEqual(AsyncState.LOADING);
+
+      await waitFor(() => expect(machine.getSnapshot()[0]).toEqual(AsyncState.RESOLVED));
+      expect(machine.getSnapshot()[1]).toEqual(new Date('2020-01-01'));
+      expect(machine.getSnapshot()[3].isRefetching).toBe(true);
+    });
+  });
+});
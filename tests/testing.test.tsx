@@ -0,0 +1,104 @@
+import {
+  render, screen, waitFor, act,
+} from '@testing-library/react';
+import React from 'react';
+import {
+  AsyncSchedulerProvider,
+  AsyncState,
+  asyncUIBlock,
+  Options,
+  useAsyncEffectState,
+} from '../src';
+import {
+  createDeferredProducer,
+  createStateRecorder,
+  DeferredProducer,
+  expectStates,
+  StateRecorder,
+  TestScheduler,
+} from '../src/testing';
+
+describe('testing utilities', () => {
+  function TestElement(props: {
+    value: number,
+    producer: DeferredProducer<string>,
+    recorder: StateRecorder<string>,
+    options?: Options,
+  }): any {
+    const {
+      value, producer, recorder, options,
+    } = props;
+    const request = recorder.record(useAsyncEffectState(producer, [value], options));
+
+    return (
+      <p>
+        {
+          asyncUIBlock(
+            request,
+            (testString: string) => testString,
+            (error) => error.toString(),
+            () => 'Loading...',
+          )
+        }
+      </p>
+    );
+  }
+
+  it('should record the states of a deferred producer', async () => {
+    const producer = createDeferredProducer<string>();
+    const recorder = createStateRecorder<string>();
+    render(<TestElement value={0} producer={producer} recorder={recorder} />);
+
+    await screen.findByText('Loading...');
+    expect(producer.callCount).toEqual(1);
+
+    act(() => producer.resolve('Resolved string'));
+    await screen.findByText('Resolved string');
+
+    expectStates(recorder, [AsyncState.LOADING, AsyncState.RESOLVED]);
+    expect(() => expectStates(recorder, [AsyncState.RESOLVED])).toThrow(
+      'Expected states [RESOLVED] but got [LOADING, RESOLVED]',
+    );
+  });
+
+  it('should reject a deferred call when aborted', async () => {
+    const producer = createDeferredProducer<string>();
+    const controller = new AbortController();
+    const call = producer(controller.signal);
+
+    controller.abort();
+    producer.resolve('Ignored string');
+    await expect(call).rejects.toThrow('The call was aborted');
+  });
+
+  it('should debounce with the test scheduler', async () => {
+    const scheduler = new TestScheduler(1000);
+    const producer = createDeferredProducer<string>();
+    const recorder = createStateRecorder<string>();
+    const element = (value: number) => (
+      <AsyncSchedulerProvider scheduler={scheduler}>
+        <TestElement
+          value={value}
+          producer={producer}
+          recorder={recorder}
+          options={{ debounceDelayMs: 300 }}
+        />
+      </AsyncSchedulerProvider>
+    );
+
+    const { rerender } = render(element(0));
+    await waitFor(() => expect(producer.callCount).toEqual(1));
+
+    rerender(element(1));
+    expect(scheduler.pendingTimerCount()).toEqual(1);
+    act(() => scheduler.advanceBy(299));
+    await expect(() => waitFor(() => expect(producer.callCount).toEqual(2))).rejects.toThrow();
+
+    act(() => scheduler.advanceBy(1));
+    await waitFor(() => expect(producer.callCount).toEqual(2));
+
+    act(() => producer.resolve('Debounced string'));
+    await screen.findByText('Debounced string');
+    expect(recorder.states[recorder.states.length - 1][3].updatedAt).toEqual(1300);
+  });
+});